@@ -0,0 +1,8 @@
+/* eslint-disable */
+// Generated by Wrangler by running `wrangler types --env-interface CloudflareEnv --include-runtime=false cloudflare-env.d.ts` (hash: 317b526da4feed5ffa3c3ce8216843cc)
+declare namespace Cloudflare {
+	interface Env {
+		ASSETS: Fetcher;
+	}
+}
+interface CloudflareEnv extends Cloudflare.Env {}
@@ -0,0 +1,15 @@
+-- Likes/comments snapshots taken on each upstream fetch (see src/lib/snapshot-store.ts)
+CREATE TABLE IF NOT EXISTS project_metrics (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  hackathon_id TEXT NOT NULL,
+  project_id INTEGER NOT NULL,
+  likes INTEGER DEFAULT 0,
+  comments INTEGER DEFAULT 0,
+  recorded_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_metrics_project_date
+  ON project_metrics (project_id, recorded_at);
+
+CREATE INDEX IF NOT EXISTS idx_metrics_hackathon_date
+  ON project_metrics (hackathon_id, recorded_at);
@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server';
+import { ProjectHistoryResponse } from '@/types/snapshot';
+import { getSecurityHeaders, RateLimiter } from '@/lib/validation';
+import { getSnapshotStore, snapshotStoreErrorResponse, DEFAULT_HISTORY_LIMIT } from '@/lib/snapshot-store';
+
+// History reads only touch our own database, so they get a more generous budget
+const historyRateLimiter = new RateLimiter(120, 60000);
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const projectId = Number(id);
+
+  if (!Number.isInteger(projectId) || projectId <= 0) {
+    return NextResponse.json(
+      { error: 'Invalid project id' },
+      { status: 400, headers: getSecurityHeaders() }
+    );
+  }
+
+  if (!historyRateLimiter.canMakeRequest()) {
+    const timeUntilReset = historyRateLimiter.getTimeUntilReset();
+    return NextResponse.json(
+      {
+        error: 'Rate limit exceeded',
+        retryAfter: Math.ceil(timeUntilReset / 1000)
+      },
+      {
+        status: 429,
+        headers: {
+          ...getSecurityHeaders(),
+          'Retry-After': Math.ceil(timeUntilReset / 1000).toString(),
+        }
+      }
+    );
+  }
+
+  const searchParams = new URL(request.url).searchParams;
+  const sinceParam = searchParams.get('since');
+  const since = sinceParam ? new Date(sinceParam) : undefined;
+  if (since && isNaN(since.getTime())) {
+    return NextResponse.json(
+      { error: 'Invalid since parameter' },
+      { status: 400, headers: getSecurityHeaders() }
+    );
+  }
+
+  const limitParam = parseInt(searchParams.get('limit') || '', 10);
+  const limit = Number.isFinite(limitParam)
+    ? Math.min(Math.max(1, limitParam), DEFAULT_HISTORY_LIMIT)
+    : DEFAULT_HISTORY_LIMIT;
+
+  try {
+    const snapshots = await getSnapshotStore().getProjectHistory(projectId, { since, limit });
+    const body: ProjectHistoryResponse = { projectId, snapshots };
+
+    return NextResponse.json(body, {
+      headers: {
+        ...getSecurityHeaders(),
+        'Cache-Control': 'public, max-age=60, stale-while-revalidate=300',
+        'X-Snapshot-Count': snapshots.length.toString(),
+      }
+    });
+  } catch (error) {
+    console.error(`Failed to load history for project ${projectId}:`, error);
+    return snapshotStoreErrorResponse('Failed to load project history');
+  }
+}
@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server';
+import { MomentumResponse } from '@/types/snapshot';
+import { getSecurityHeaders, RateLimiter } from '@/lib/validation';
+import { getSnapshotStore, snapshotStoreErrorResponse } from '@/lib/snapshot-store';
+import { HACKATHONS, DEFAULT_HACKATHON_ID, isKnownHackathonId } from '@/lib/hackathons';
+import { MOMENTUM_WINDOWS, DEFAULT_MOMENTUM_WINDOW, isMomentumWindow } from '@/lib/momentum';
+
+const momentumRateLimiter = new RateLimiter(30, 60000);
+
+export async function GET(request: Request) {
+  const searchParams = new URL(request.url).searchParams;
+
+  const hackathonId = searchParams.get('hackathonId') || DEFAULT_HACKATHON_ID;
+  if (!isKnownHackathonId(hackathonId)) {
+    return NextResponse.json(
+      {
+        error: 'Unknown hackathon',
+        allowed: HACKATHONS.map(hackathon => hackathon.id),
+      },
+      { status: 400, headers: getSecurityHeaders() }
+    );
+  }
+
+  const windowParam = searchParams.get('window') || DEFAULT_MOMENTUM_WINDOW;
+  if (!isMomentumWindow(windowParam)) {
+    return NextResponse.json(
+      {
+        error: 'Invalid window',
+        allowed: Object.keys(MOMENTUM_WINDOWS),
+      },
+      { status: 400, headers: getSecurityHeaders() }
+    );
+  }
+
+  if (!momentumRateLimiter.canMakeRequest()) {
+    const timeUntilReset = momentumRateLimiter.getTimeUntilReset();
+    return NextResponse.json(
+      {
+        error: 'Rate limit exceeded',
+        retryAfter: Math.ceil(timeUntilReset / 1000)
+      },
+      {
+        status: 429,
+        headers: {
+          ...getSecurityHeaders(),
+          'Retry-After': Math.ceil(timeUntilReset / 1000).toString(),
+        }
+      }
+    );
+  }
+
+  const since = new Date(Date.now() - MOMENTUM_WINDOWS[windowParam].durationMs);
+
+  try {
+    const projects = await getSnapshotStore().getMomentum(hackathonId, since);
+    const body: MomentumResponse = {
+      hackathonId,
+      window: windowParam,
+      since: since.toISOString(),
+      projects,
+    };
+
+    return NextResponse.json(body, {
+      headers: {
+        ...getSecurityHeaders(),
+        'Cache-Control': 'public, max-age=60, stale-while-revalidate=300',
+        'X-Project-Count': projects.length.toString(),
+      }
+    });
+  } catch (error) {
+    console.error(`Failed to compute momentum for hackathon ${hackathonId}:`, error);
+    return snapshotStoreErrorResponse('Failed to compute momentum');
+  }
+}
@@ -1,69 +1,25 @@
 import { NextResponse } from 'next/server';
-import { ColosseumProjectsResponse } from '@/types/project';
-import { validateProjects, getSecurityHeaders, apiRateLimiter } from '@/lib/validation';
-
-const API_CONFIG = {
-  COLOSSEUM_API_URL: 'https://api.colosseum.org/api/projects',
-  HACKATHON_ID: '4',
-  PROJECT_LIMIT: '1450',
-  TIMEOUT: 30000, // 30 seconds
-};
-
-async function fetchFreshData(): Promise<ColosseumProjectsResponse['projects']> {
-  const apiUrl = `${API_CONFIG.COLOSSEUM_API_URL}?hackathonId=${API_CONFIG.HACKATHON_ID}&limit=${API_CONFIG.PROJECT_LIMIT}&showWinnersOnly=false&sort=RANDOM`;
-  
-  console.log('Fetching fresh data from:', apiUrl);
-  
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), API_CONFIG.TIMEOUT);
-  
-  try {
-    const response = await fetch(apiUrl, {
-      signal: controller.signal,
-      headers: {
-        'User-Agent': 'Colosseum-Dashboard/1.0',
-        'Accept': 'application/json',
-        'Cache-Control': 'no-cache',
-      },
-    });
-    
-    clearTimeout(timeoutId);
-    
-    if (!response.ok) {
-      throw new Error(`API request failed with status ${response.status}: ${response.statusText}`);
-    }
-    
-    const result: ColosseumProjectsResponse = await response.json();
-    
-    if (!result || !result.projects || !Array.isArray(result.projects)) {
-      throw new Error('Invalid API response format');
-    }
-    
-    const validatedProjects = validateProjects(result.projects);
-    
-    if (validatedProjects.length === 0) {
-      throw new Error('No valid projects after validation');
-    }
-    
-    // Calculate teamSize from teamMembers array length
-    const projectsWithTeamSize = validatedProjects.map((project) => ({
-      ...project,
-      teamSize: project.teamMembers ? project.teamMembers.length : 1
-    }));
-    
-    console.log(`Successfully fetched ${projectsWithTeamSize.length} projects`);
-    return projectsWithTeamSize;
-    
-  } catch (error) {
-    clearTimeout(timeoutId);
-    throw error;
-  }
-}
+import { getSecurityHeaders, apiRateLimiter } from '@/lib/validation';
+import { getSnapshotStore, runInBackground } from '@/lib/snapshot-store';
+import { fetchHackathonProjects } from '@/lib/colosseum';
+import { HACKATHONS, DEFAULT_HACKATHON_ID, isKnownHackathonId } from '@/lib/hackathons';
 
 export async function GET(request: Request) {
   const startTime = Date.now();
   
   try {
+    // Only hackathons from the registry may be proxied upstream
+    const hackathonId = new URL(request.url).searchParams.get('hackathonId') || DEFAULT_HACKATHON_ID;
+    if (!isKnownHackathonId(hackathonId)) {
+      return NextResponse.json(
+        {
+          error: 'Unknown hackathon',
+          allowed: HACKATHONS.map(hackathon => hackathon.id),
+        },
+        { status: 400, headers: getSecurityHeaders() }
+      );
+    }
+
     // Rate limiting
     if (!apiRateLimiter.canMakeRequest()) {
       const timeUntilReset = apiRateLimiter.getTimeUntilReset();
@@ -83,7 +39,10 @@ export async function GET(request: Request) {
     }
 
     // Fetch fresh data
-    const projectsData = await fetchFreshData();
+    const projectsData = await fetchHackathonProjects(hackathonId);
+
+    // Record likes/comments history without holding up the response
+    runInBackground(getSnapshotStore().recordSnapshot(hackathonId, projectsData));
     
     const responseTime = Date.now() - startTime;
     console.log(`API request completed in ${responseTime}ms`);
@@ -104,6 +63,7 @@ export async function GET(request: Request) {
         // Response metadata
         'X-Response-Time': `${responseTime}ms`,
         'X-Project-Count': projectsData.length.toString(),
+        'X-Hackathon-Id': hackathonId,
         'X-Timestamp': new Date().toISOString(),
       }
     });
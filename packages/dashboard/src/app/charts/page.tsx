@@ -27,7 +27,9 @@ function ChartsContent() {
     filters,
     filteredProjects,
     isSearching,
+    searchErrors,
     resultCount,
+    facets,
     updateFilters,
     clearFilters,
     hasActiveFilters
@@ -124,6 +126,7 @@ function ChartsContent() {
                   placeholder="Filter charts by project name and description..."
                   isSearching={isSearching}
                   resultCount={resultCount}
+                  errors={searchErrors.map((error) => error.message)}
                   className="w-full"
                 />
               </div>
@@ -169,6 +172,7 @@ function ChartsContent() {
           onFiltersChange={updateFilters}
           isOpen={showFilterSidebar}
           onClose={() => setShowFilterSidebar(false)}
+          facets={facets}
         />
       </div>
     </div>
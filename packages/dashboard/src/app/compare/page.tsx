@@ -0,0 +1,324 @@
+'use client';
+
+import { Suspense, useState, useMemo, useCallback } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { useProjects } from '@/hooks/use-projects';
+import { useProjectHistory } from '@/hooks/use-project-history';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Sparkline } from '@/components/ui/sparkline';
+import { downloadFile } from '@/lib/api';
+import { MOMENTUM_WINDOWS } from '@/lib/momentum';
+import { PROJECT_LINKS, PROJECT_LINK_TYPES } from '@/lib/project-links';
+import { getEngagementRatio } from '@/lib/engagement';
+import { formatNumber, getProjectPath } from '@/lib/utils';
+import {
+  compareToMarkdown,
+  formatSubmittedAt,
+  getComparePath,
+  getHistoryChange,
+  parseCompareIds,
+} from '@/lib/compare';
+import { Project } from '@/types/project';
+import { ArrowLeft, Download, GitCompare, RefreshCw, X } from 'lucide-react';
+
+// Engagement history shown for each project
+const HISTORY_WINDOW = MOMENTUM_WINDOWS['7d'];
+
+interface CompareRow {
+  label: string;
+  render: (project: Project) => React.ReactNode;
+  // Numeric rows highlight the highest value
+  value?: (project: Project) => number;
+}
+
+function CompareContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { projects, loading, fetchData } = useProjects();
+
+  const ids = useMemo(() => parseCompareIds(searchParams.get('ids')), [searchParams]);
+  const selected = useMemo(() => {
+    const byId = new Map(projects.map(project => [project.id, project]));
+    return ids.map(id => byId.get(id)).filter((project): project is Project => project !== undefined);
+  }, [ids, projects]);
+  const missingCount = projects.length > 0 ? ids.length - selected.length : 0;
+
+  const [since] = useState(() => new Date(Date.now() - HISTORY_WINDOW.durationMs));
+  const { history, loading: isHistoryLoading } = useProjectHistory(ids, since);
+
+  const handleRemove = useCallback((id: number) => {
+    const remaining = ids.filter(other => other !== id);
+    router.replace(remaining.length > 0 ? getComparePath(remaining) : '/compare', { scroll: false });
+  }, [ids, router]);
+
+  const handleExport = useCallback(() => {
+    const markdown = compareToMarkdown(selected, history, window.location.origin);
+    downloadFile(markdown, 'colosseum_comparison.md', 'text/markdown');
+  }, [selected, history]);
+
+  const rows: CompareRow[] = [
+    {
+      label: 'Likes',
+      render: project => formatNumber(project.likes || 0),
+      value: project => project.likes || 0,
+    },
+    {
+      label: 'Comments',
+      render: project => formatNumber(project.comments || 0),
+      value: project => project.comments || 0,
+    },
+    {
+      label: 'Comments per like',
+      render: project => project.likes ? getEngagementRatio(project).toFixed(2) : '—',
+      value: project => getEngagementRatio(project),
+    },
+    {
+      label: `Last ${HISTORY_WINDOW.label}`,
+      render: project => {
+        const snapshots = history.get(project.id) ?? [];
+        const change = getHistoryChange(snapshots);
+        if (!change) {
+          return (
+            <span className="text-xs text-muted-foreground">
+              {isHistoryLoading ? '…' : 'No history yet'}
+            </span>
+          );
+        }
+        return (
+          <div className="flex items-center gap-2">
+            <Sparkline
+              values={snapshots.map(snapshot => snapshot.likes)}
+              width={80}
+              height={24}
+              className="text-green-600 dark:text-green-400"
+            />
+            <span className="text-xs">
+              {change.likes >= 0 ? '+' : ''}{change.likes} likes, {change.comments >= 0 ? '+' : ''}{change.comments} comments
+            </span>
+          </div>
+        );
+      },
+    },
+    {
+      label: 'Team size',
+      render: project => project.teamMembers?.length || 1,
+      value: project => project.teamMembers?.length || 1,
+    },
+    {
+      label: 'Team',
+      render: project => project.teamMembers?.length > 0 ? (
+        <ul className="space-y-0.5 text-xs">
+          {project.teamMembers.map((member, i) => (
+            <li key={i}>
+              {member.displayName || member.username}
+              {member.username && member.displayName && (
+                <span className="text-muted-foreground"> @{member.username}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : '—',
+    },
+    { label: 'Country', render: project => project.country || '—' },
+    { label: 'Submitted', render: project => formatSubmittedAt(project.submittedAt) },
+    {
+      label: 'University',
+      render: project => project.universityName || (project.isUniversityProject ? 'Yes' : '—'),
+    },
+    {
+      label: 'Tracks',
+      render: project => project.tracks?.length > 0 ? (
+        <div className="flex flex-col gap-0.5 text-xs">
+          {project.tracks.map((track, i) => (
+            <span key={i} className="text-hakata-purple dark:text-hakata-light-purple font-medium">
+              {track}
+            </span>
+          ))}
+        </div>
+      ) : '—',
+    },
+    {
+      label: 'Links',
+      render: project => {
+        const links = PROJECT_LINK_TYPES.filter(link => PROJECT_LINKS[link].has(project));
+        return links.length > 0 ? (
+          <div className="flex flex-col gap-0.5 text-xs">
+            {links.map(link => (
+              <a
+                key={link}
+                href={PROJECT_LINKS[link].url(project)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 hover:underline"
+              >
+                {PROJECT_LINKS[link].label}
+              </a>
+            ))}
+          </div>
+        ) : '—';
+      },
+    },
+  ];
+
+  const renderRow = (row: CompareRow) => {
+    // Only worth highlighting when the projects differ
+    const values = row.value ? selected.map(row.value) : [];
+    const best = values.length > 1 && new Set(values).size > 1 ? Math.max(...values) : null;
+
+    return (
+      <TableRow key={row.label} className="border-gray-800">
+        <TableCell className="font-semibold text-xs text-muted-foreground align-top">{row.label}</TableCell>
+        {selected.map((project, i) => (
+          <TableCell
+            key={project.id}
+            className={`text-sm align-top ${best !== null && values[i] === best ? 'font-bold text-green-600 dark:text-green-400' : ''}`}
+          >
+            {row.render(project)}
+          </TableCell>
+        ))}
+      </TableRow>
+    );
+  };
+
+  const renderBody = () => {
+    if (projects.length === 0) {
+      return (
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-muted-foreground mb-4">
+              {loading ? 'Loading projects…' : 'No project data available. Load data from the main dashboard first.'}
+            </p>
+            <Button onClick={fetchData} disabled={loading}>
+              <RefreshCw className={`mr-2 h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+              {loading ? 'Loading...' : 'Load Data'}
+            </Button>
+          </CardContent>
+        </Card>
+      );
+    }
+
+    if (selected.length === 0) {
+      return (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Nothing to compare</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-muted-foreground mb-4">
+              Tick up to four projects in the dashboard table, then choose Compare.
+            </p>
+            <Link href="/">
+              <Button variant="outline">Go to Dashboard</Button>
+            </Link>
+          </CardContent>
+        </Card>
+      );
+    }
+
+    return (
+      <Card>
+        <CardContent className="p-0">
+          <Table className="table-fixed" style={{ minWidth: 200 + selected.length * 220 }}>
+            <TableHeader>
+              <TableRow className="border-gray-800">
+                <TableHead className="w-[160px]" />
+                {selected.map(project => (
+                  <TableHead key={project.id} className="py-3 align-top">
+                    <div className="flex items-start gap-2">
+                      <Link
+                        href={getProjectPath(project)}
+                        className="flex-1 min-w-0 font-semibold text-foreground hover:underline break-words"
+                      >
+                        {project.name}
+                      </Link>
+                      <button
+                        onClick={() => handleRemove(project.id)}
+                        className="shrink-0 p-1 text-muted-foreground hover:text-foreground"
+                        title={`Remove ${project.name} from the comparison`}
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </div>
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(renderRow)}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto p-6 space-y-6">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+          <div className="flex items-center gap-4">
+            <Link href="/">
+              <Button variant="outline" size="sm">
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                Back to Dashboard
+              </Button>
+            </Link>
+            <div>
+              <h1 className="text-3xl font-bold tracking-tight flex items-center gap-2">
+                <GitCompare className="h-8 w-8" />
+                Compare Projects
+              </h1>
+              <p className="text-muted-foreground">
+                {selected.length > 0
+                  ? `${selected.length} project${selected.length === 1 ? '' : 's'} side by side`
+                  : 'Pick projects from the dashboard table'}
+              </p>
+            </div>
+          </div>
+          <Button variant="outline" size="sm" onClick={handleExport} disabled={selected.length === 0}>
+            <Download className="mr-2 h-4 w-4" />
+            Export Markdown
+          </Button>
+        </div>
+
+        {missingCount > 0 && (
+          <p className="text-sm text-muted-foreground">
+            {missingCount} of the linked projects {missingCount === 1 ? 'is' : 'are'} not in the selected hackathon&apos;s data.
+          </p>
+        )}
+
+        {renderBody()}
+      </div>
+    </div>
+  );
+}
+
+// Loading fallback component
+function CompareLoading() {
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto p-6 space-y-6">
+        <div className="flex items-center gap-4">
+          <div className="h-10 w-32 bg-muted rounded animate-pulse" />
+          <div className="space-y-2">
+            <div className="h-8 w-64 bg-muted rounded animate-pulse" />
+            <div className="h-4 w-48 bg-muted rounded animate-pulse" />
+          </div>
+        </div>
+        <div className="h-96 w-full bg-muted rounded animate-pulse" />
+      </div>
+    </div>
+  );
+}
+
+export default function ComparePage() {
+  return (
+    <Suspense fallback={<CompareLoading />}>
+      <CompareContent />
+    </Suspense>
+  );
+}
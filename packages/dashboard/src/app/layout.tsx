@@ -2,6 +2,9 @@ import type { Metadata } from "next";
 import { Inter } from "next/font/google";
 import Script from "next/script";
 import { ProjectsProvider } from "@/hooks/use-projects";
+import { WatchlistProvider } from "@/hooks/use-watchlist";
+import { AnnotationsProvider } from "@/hooks/use-annotations";
+import { ScoringProvider } from "@/hooks/use-scoring";
 import { HeaderNotification } from "@/components/header-notification-component";
 import "./globals.css";
 
@@ -134,12 +137,18 @@ export default function RootLayout({
       </head>
       <body className={`${inter.variable} font-sans antialiased`}>
         <ProjectsProvider>
-          <div className="relative flex min-h-screen flex-col bg-background">
-            <HeaderNotification />
-            <main className="flex-1">
-              {children}
-            </main>
-          </div>
+          <WatchlistProvider>
+            <AnnotationsProvider>
+              <ScoringProvider>
+                <div className="relative flex min-h-screen flex-col bg-background">
+                  <HeaderNotification />
+                  <main className="flex-1">
+                    {children}
+                  </main>
+                </div>
+              </ScoringProvider>
+            </AnnotationsProvider>
+          </WatchlistProvider>
         </ProjectsProvider>
       </body>
     </html>
@@ -0,0 +1,286 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useProjects } from '@/hooks/use-projects';
+import { useScoring } from '@/hooks/use-scoring';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { RubricEditor } from '@/components/rubric-editor';
+import { downloadFile } from '@/lib/api';
+import { buildLeaderboard, formatScore, isDefaultReviewer, parseScoresFile, serializeScores } from '@/lib/rubric';
+import { getProjectPath } from '@/lib/utils';
+import { Project } from '@/types/project';
+import { AlertCircle, ArrowLeft, Download, RefreshCw, Trophy, Upload, X } from 'lucide-react';
+
+interface ImportMessage {
+  fileName: string;
+  text: string;
+  isError: boolean;
+}
+
+export default function LeaderboardPage() {
+  const { projects, hackathon, loading, fetchData } = useProjects();
+  const { scoring, reviewer, setReviewer, importScores, removeReviewer } = useScoring();
+  const [reviewerDraft, setReviewerDraft] = useState(reviewer);
+  const [messages, setMessages] = useState<ImportMessage[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Pick up the stored name once it's restored
+  useEffect(() => {
+    setReviewerDraft(reviewer);
+  }, [reviewer]);
+
+  const { reviewers, entries } = useMemo(() => buildLeaderboard(scoring), [scoring]);
+  const projectsById = useMemo(() => new Map(projects.map(project => [project.id, project])), [projects]);
+  // Scores can cover other hackathons; only this one's projects are ranked
+  const rows = useMemo(
+    () => entries.flatMap(entry => {
+      const project = projectsById.get(entry.projectId);
+      return project ? [{ entry, project }] : [];
+    }),
+    [entries, projectsById]
+  );
+  const otherCount = projects.length > 0 ? entries.length - rows.length : 0;
+
+  const handleExport = () => {
+    const fileName = reviewer.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '') || 'reviewer';
+    downloadFile(serializeScores(scoring), `colosseum_scores_${fileName}.json`, 'application/json');
+  };
+
+  const handleImport = async (files: File[]) => {
+    const results: ImportMessage[] = [];
+    for (const file of files) {
+      try {
+        const scoresFile = parseScoresFile(await file.text());
+        const { importedCount: count, unmatchedCriteria: unmatched } = importScores(scoresFile);
+        results.push({
+          fileName: file.name,
+          text: `Imported ${count} project${count === 1 ? '' : 's'} from ${scoresFile.reviewer}` +
+            (unmatched.length > 0 ? `; ignored criteria not in your rubric: ${unmatched.join(', ')}` : ''),
+          isError: false,
+        });
+      } catch (error) {
+        console.error('Failed to import scores:', error);
+        results.push({
+          fileName: file.name,
+          text: error instanceof Error ? error.message : 'Unable to import scores',
+          isError: true,
+        });
+      }
+    }
+    setMessages(results);
+  };
+
+  const handleReviewerCommit = () => {
+    const name = reviewerDraft.trim();
+    // Names identify reviewers, so they can't be blank or taken by an imported one
+    const taken = scoring.imported.some(entry => entry.reviewer.toLowerCase() === name.toLowerCase());
+    if (name && !taken) {
+      setReviewer(name);
+    } else {
+      setReviewerDraft(reviewer);
+    }
+  };
+
+  const renderScore = (score: number | null) => (
+    <span className={score === null ? 'text-muted-foreground' : ''}>{formatScore(score)}</span>
+  );
+
+  const renderProject = (project: Project) => (
+    <Link href={getProjectPath(project)} className="font-medium text-foreground hover:underline">
+      {project.name || 'Unnamed Project'}
+    </Link>
+  );
+
+  const renderLeaderboard = () => {
+    if (projects.length === 0) {
+      return (
+        <CardContent>
+          <p className="text-muted-foreground mb-4">
+            {loading ? 'Loading projects…' : 'No project data available. Load data from the main dashboard first.'}
+          </p>
+          <Button onClick={fetchData} disabled={loading}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            {loading ? 'Loading...' : 'Load Data'}
+          </Button>
+        </CardContent>
+      );
+    }
+
+    if (rows.length === 0) {
+      return (
+        <CardContent>
+          <p className="text-muted-foreground">
+            No {hackathon.name} projects scored yet. Open a project from the dashboard to score it, or import
+            other reviewers&apos; scores.
+          </p>
+        </CardContent>
+      );
+    }
+
+    return (
+      <CardContent className="p-0 overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow className="border-gray-800">
+              <TableHead className="w-12">#</TableHead>
+              <TableHead>Project</TableHead>
+              {reviewers.map((name, i) => (
+                <TableHead key={name} className="text-center whitespace-nowrap">
+                  {name}
+                  {i === 0 ? (
+                    <span className="ml-1 text-xs font-normal text-muted-foreground">(you)</span>
+                  ) : (
+                    <button
+                      onClick={() => removeReviewer(name)}
+                      className="ml-1 align-middle text-muted-foreground hover:text-destructive"
+                      title={`Remove ${name}'s scores`}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  )}
+                </TableHead>
+              ))}
+              <TableHead className="text-center">Mean</TableHead>
+              <TableHead className="text-center">Reviewers</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map(({ entry, project }, index) => (
+              <TableRow key={project.id} className="border-gray-800">
+                <TableCell className="text-xs text-muted-foreground">{index + 1}</TableCell>
+                <TableCell className="text-sm">{renderProject(project)}</TableCell>
+                {entry.reviewerScores.map((score, i) => (
+                  <TableCell key={reviewers[i]} className="text-center text-sm">
+                    {renderScore(score)}
+                  </TableCell>
+                ))}
+                <TableCell className="text-center text-sm font-bold">{formatScore(entry.mean)}</TableCell>
+                <TableCell className="text-center text-xs text-muted-foreground">
+                  {entry.reviewerCount} / {reviewers.length}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto p-6 space-y-6">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+          <div className="flex items-center gap-4">
+            <Link href="/">
+              <Button variant="outline" size="sm">
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                Back to Dashboard
+              </Button>
+            </Link>
+            <div>
+              <h1 className="text-3xl font-bold tracking-tight flex items-center gap-2">
+                <Trophy className="h-8 w-8" />
+                Leaderboard
+              </h1>
+              <p className="text-muted-foreground">
+                Weighted rubric scores across {reviewers.length} reviewer{reviewers.length === 1 ? '' : 's'}
+              </p>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+              <Upload className="mr-2 h-4 w-4" />
+              Import scores
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleExport}
+              disabled={Object.keys(scoring.projects).length === 0 || isDefaultReviewer(reviewer)}
+              title={isDefaultReviewer(reviewer) ? 'Set your reviewer name below first' : undefined}
+            >
+              <Download className="mr-2 h-4 w-4" />
+              Export my scores
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              multiple
+              className="hidden"
+              onChange={(e) => {
+                const files = Array.from(e.target.files ?? []);
+                if (files.length > 0) handleImport(files);
+                // Allow picking the same files again
+                e.target.value = '';
+              }}
+            />
+          </div>
+        </div>
+
+        {messages.length > 0 && (
+          <div className="space-y-1">
+            {messages.map((message, i) => (
+              <div
+                key={i}
+                className={`flex items-center gap-1 text-sm ${message.isError ? 'text-destructive' : 'text-muted-foreground'}`}
+              >
+                {message.isError && <AlertCircle className="h-4 w-4 shrink-0" />}
+                <span className="font-medium">{message.fileName}:</span> {message.text}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">{hackathon.name}</CardTitle>
+          </CardHeader>
+          {renderLeaderboard()}
+        </Card>
+
+        {otherCount > 0 && (
+          <p className="text-sm text-muted-foreground">
+            {otherCount} scored project{otherCount === 1 ? ' is' : 's are'} from other hackathons.
+          </p>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Rubric</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="flex flex-wrap items-center gap-2">
+              <label htmlFor="reviewer-name" className="text-sm font-medium">Your reviewer name</label>
+              <Input
+                id="reviewer-name"
+                value={reviewerDraft}
+                onChange={(e) => setReviewerDraft(e.target.value)}
+                onBlur={handleReviewerCommit}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleReviewerCommit();
+                }}
+                className="h-8 w-48 text-sm"
+              />
+              <span className="text-xs text-muted-foreground">
+                {isDefaultReviewer(reviewer)
+                  ? 'Needed to export or import scores'
+                  : 'Shown to others when they import your scores'}
+              </span>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Each criterion is scored 1 to 5; a project&apos;s score is the weighted mean of the criteria scored.
+              Imported scores are matched to this rubric by criterion name.
+            </p>
+            <RubricEditor />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,15 +1,29 @@
 'use client';
 
-import { Suspense, useState, useCallback, useEffect } from 'react';
+import { Suspense, useState, useCallback, useEffect, useMemo } from 'react';
 import Link from 'next/link';
 import Image from 'next/image';
 import { exportToCSV } from '@/lib/api';
+import { CsvExportOptions } from '@/lib/csv-export';
 import { useProjects } from '@/hooks/use-projects';
 import { useSearch } from '@/hooks/useSearch';
+import { useWatchlist } from '@/hooks/use-watchlist';
+import { useProjectSelection } from '@/hooks/use-project-selection';
+import { useAnnotations } from '@/hooks/use-annotations';
 import { FilterSidebar } from '@/components/dashboard/filter-sidebar';
 import { OverviewCards } from '@/components/dashboard/overview-cards';
 import { ProjectsTable } from '@/components/dashboard/projects-table';
+import { ChangesPanel } from '@/components/dashboard/changes-panel';
+import { CsvExportDialog } from '@/components/dashboard/csv-export-dialog';
+import { BookmarkButton } from '@/components/bookmark-button';
 import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { useToast, ToastContainer } from '@/components/ui/toast';
 import {
@@ -17,22 +31,39 @@ import {
   Database,
   AlertCircle,
   BarChart3,
+  Trophy,
   ExternalLink,
+  Star,
 } from 'lucide-react';
 import { SkeletonDashboard } from '@/components/ui/skeleton-components';
 import { Project } from '@/types/project';
+import { Hackathon } from '@/types/hackathon';
+import { HACKATHONS } from '@/lib/hackathons';
 
 // Compact Header with Action Buttons
 function CompactHeader({ 
+  hackathon,
+  onHackathonChange,
   projects, 
   lastFetch, 
   onExportCSV, 
-  filteredProjects 
+  filteredProjects,
+  selectedCount,
+  watchlistCount,
+  watchlistOnly,
+  onToggleWatchlist
 }: {
+  hackathon: Hackathon;
+  onHackathonChange: (hackathonId: string) => void;
   projects: Project[];
   lastFetch: Date | null;
   onExportCSV: () => void;
   filteredProjects: Project[];
+  // Export covers the ticked rows when there are any
+  selectedCount: number;
+  watchlistCount: number;
+  watchlistOnly: boolean;
+  onToggleWatchlist: () => void;
 }) {
   return (
     <div className="border-b bg-gray-900/50 backdrop-blur-sm">
@@ -50,7 +81,7 @@ function CompactHeader({
                 />
               </div>
               <div>
-                <h1 className="text-xl font-bold">Colosseum Breakout Dashboard</h1>
+                <h1 className="text-xl font-bold">Colosseum {hackathon.name} Dashboard</h1>
                 <div className="flex items-center gap-4 text-xs text-muted-foreground">
                   <span>Advanced hackathon analytics</span>
                   {lastFetch && (
@@ -62,21 +93,51 @@ function CompactHeader({
           </div>
           
           <div className="flex items-center gap-2">
+            {/* Hackathon Switcher */}
+            <Select value={hackathon.id} onValueChange={onHackathonChange}>
+              <SelectTrigger className="w-36 h-9 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {HACKATHONS.map((item) => (
+                  <SelectItem key={item.id} value={item.id}>
+                    {item.name} ({new Date(item.startDate).getFullYear()})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
             {/* Action Buttons */}
+            <Button
+              variant={watchlistOnly ? "default" : "outline"}
+              onClick={onToggleWatchlist}
+              size="sm"
+              title={watchlistOnly ? "Show all projects" : "Show watchlist only"}
+            >
+              <Star className={`mr-1 h-3 w-3 ${watchlistOnly ? 'fill-current' : ''}`} />
+              Watchlist ({watchlistCount})
+            </Button>
             <Link href="/charts">
               <Button variant="outline" disabled={projects.length === 0} size="sm">
                 <BarChart3 className="mr-1 h-3 w-3" />
                 Charts
               </Button>
             </Link>
+            <Link href="/leaderboard">
+              <Button variant="outline" size="sm">
+                <Trophy className="mr-1 h-3 w-3" />
+                Leaderboard
+              </Button>
+            </Link>
             <Button 
               variant="outline" 
               onClick={onExportCSV} 
-              disabled={filteredProjects.length === 0}
+              disabled={filteredProjects.length === 0 && selectedCount === 0}
               size="sm"
+              title={selectedCount > 0 ? 'Export the selected projects' : 'Export every project matching the filters'}
             >
               <Download className="mr-1 h-3 w-3" />
-              Export CSV
+              {selectedCount > 0 ? `Export ${selectedCount} selected` : 'Export CSV'}
             </Button>
             
             {/* Powered by - Desktop only */}
@@ -143,9 +204,20 @@ function CompactHeader({
 
 // Separate component that uses useSearchParams
 function DashboardContent() {
-  const { projects, lastFetch, error, clearError } = useProjects();
+  const {
+    hackathon,
+    setHackathonId,
+    projects,
+    lastFetch,
+    error,
+    clearError,
+    changes,
+    markChangesSeen,
+  } = useProjects();
   const [showFilterSidebar, setShowFilterSidebar] = useState(false);
   const { success, error: showError, toasts, removeToast } = useToast();
+  const { count: watchlistCount } = useWatchlist();
+  const { annotations } = useAnnotations();
 
   // Show toast for errors
   useEffect(() => {
@@ -156,38 +228,71 @@ function DashboardContent() {
 
   const {
     filters,
+    pagination,
     filteredProjects,
     isSearching,
+    searchErrors,
+    highlight,
+    facets,
     updateFilters,
+    updatePagination,
     clearFilters,
-    hasActiveFilters
+    hasActiveFilters,
+    momentum,
+    isMomentumLoading
   } = useSearch(projects);
 
   const handleSearchChange = useCallback((value: string) => {
     updateFilters({ search: value });
   }, [updateFilters]);
 
-  const handleExportCSV = useCallback(() => {
+  const selection = useProjectSelection();
+  // Project ids are unique across hackathons, so ticks survive switching
+  // hackathon; only the loaded hackathon's projects are acted on
+  const selectedProjects = useMemo(() => {
+    const byId = new Map(projects.map(project => [project.id, project]));
+    return selection.selectedIds
+      .map(id => byId.get(id))
+      .filter((project): project is Project => project !== undefined);
+  }, [projects, selection.selectedIds]);
+
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const exportedProjects = selectedProjects.length > 0 ? selectedProjects : filteredProjects;
+
+  const handleExportCSV = useCallback((options: CsvExportOptions) => {
     try {
-      exportToCSV(filteredProjects);
-      success('Export successful', `Downloaded ${filteredProjects.length} projects as CSV`);
+      exportToCSV(exportedProjects, `colosseum_${hackathon.slug}_projects.csv`, annotations, options);
+      success('Export successful', `Downloaded ${exportedProjects.length} projects as CSV`);
     } catch (error) {
       console.error('Failed to export CSV:', error);
       showError('Export failed', 'Unable to download CSV file');
     }
-  }, [filteredProjects, success, showError]);
+  }, [exportedProjects, hackathon.slug, annotations, success, showError]);
 
   return (
     <div className="min-h-screen bg-background">
       {/* Toast Container */}
       <ToastContainer toasts={toasts} onRemove={removeToast} />
+
+      <CsvExportDialog
+        open={isExportOpen}
+        onOpenChange={setIsExportOpen}
+        projectCount={exportedProjects.length}
+        onExport={handleExportCSV}
+      />
       
       {/* Compact Header with Actions */}
       <CompactHeader 
+        hackathon={hackathon}
+        onHackathonChange={setHackathonId}
         projects={projects}
         lastFetch={lastFetch}
-        onExportCSV={handleExportCSV}
+        onExportCSV={() => setIsExportOpen(true)}
         filteredProjects={filteredProjects}
+        selectedCount={selectedProjects.length}
+        watchlistCount={watchlistCount}
+        watchlistOnly={filters.watchlistOnly}
+        onToggleWatchlist={() => updateFilters({ watchlistOnly: !filters.watchlistOnly })}
       />
       
       {/* Main Content */}
@@ -230,18 +335,36 @@ function DashboardContent() {
           <>
             {/* Compact Overview */}
             <OverviewCards projects={filteredProjects} />
+
+            {/* What moved since the user last marked changes as seen */}
+            <ChangesPanel
+              changes={changes}
+              projects={projects}
+              onMarkSeen={markChangesSeen}
+            />
             
             {/* Projects Table with integrated search and filters */}
             <ProjectsTable 
               projects={filteredProjects}
+              allProjects={projects}
               filters={filters}
               onFiltersChange={updateFilters}
+              BookmarkButton={BookmarkButton}
               searchValue={filters.search}
               onSearchChange={handleSearchChange}
               isSearching={isSearching}
+              searchErrors={searchErrors}
+              highlight={highlight}
               hasActiveFilters={hasActiveFilters}
               onOpenFilters={() => setShowFilterSidebar(true)}
               onClearFilters={clearFilters}
+              momentum={momentum}
+              isMomentumLoading={isMomentumLoading}
+              changes={changes}
+              pagination={pagination}
+              onPaginationChange={updatePagination}
+              selection={selection}
+              selectedProjects={selectedProjects}
             />
           </>
         )}
@@ -253,6 +376,7 @@ function DashboardContent() {
           onFiltersChange={updateFilters}
           isOpen={showFilterSidebar}
           onClose={() => setShowFilterSidebar(false)}
+          facets={facets}
         />
       </div>
     </div>
@@ -0,0 +1,114 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { BookmarkButton } from '@/components/bookmark-button';
+import { ProjectDetail } from '@/components/project-detail';
+import { ProjectAnnotations } from '@/components/project-annotations';
+import { ScoringPanel } from '@/components/scoring-panel';
+import { findProjectBySlug } from '@/lib/colosseum';
+import { getHackathon } from '@/lib/hackathons';
+import { getArenaUrl, getProjectPath, truncate } from '@/lib/utils';
+import { ArrowLeft, ExternalLink } from 'lucide-react';
+
+interface ProjectPageProps {
+  params: Promise<{ slug: string }>;
+  searchParams: Promise<{ hackathon?: string }>;
+}
+
+// Upstream data is refreshed every few minutes, so the page can be too
+export const revalidate = 300;
+
+export async function generateMetadata({ params, searchParams }: ProjectPageProps): Promise<Metadata> {
+  const { slug } = await params;
+  const { hackathon: hackathonId } = await searchParams;
+  const lookup = await findProjectBySlug(decodeURIComponent(slug), hackathonId);
+
+  if (!lookup) {
+    return { title: 'Project not found | Colosseum Projects Dashboard' };
+  }
+
+  const { project } = lookup;
+  const hackathon = getHackathon(lookup.hackathonId);
+  const title = `${project.name} | Colosseum ${hackathon.name}`;
+  const description = truncate(project.description?.trim() || `${project.name} at Colosseum ${hackathon.name}`, 200);
+  const images = project.image?.url ? [{ url: project.image.url, alt: project.name }] : undefined;
+
+  return {
+    title,
+    description,
+    alternates: { canonical: getProjectPath(project) },
+    openGraph: {
+      title,
+      description,
+      url: getProjectPath(project),
+      type: 'article',
+      images,
+    },
+    twitter: {
+      card: images ? 'summary_large_image' : 'summary',
+      title,
+      description,
+      images: images?.map(image => image.url),
+    },
+  };
+}
+
+export default async function ProjectPage({ params, searchParams }: ProjectPageProps) {
+  const { slug } = await params;
+  const { hackathon: hackathonId } = await searchParams;
+  const lookup = await findProjectBySlug(decodeURIComponent(slug), hackathonId);
+
+  if (!lookup) {
+    notFound();
+  }
+
+  const { project } = lookup;
+  const hackathon = getHackathon(lookup.hackathonId);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto max-w-4xl p-6 space-y-6">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+          <div className="flex items-center gap-4 min-w-0">
+            <Link href={`/?project=${encodeURIComponent(project.slug)}`}>
+              <Button variant="outline" size="sm">
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                Back to Dashboard
+              </Button>
+            </Link>
+            <div className="min-w-0">
+              <h1 className="text-3xl font-bold tracking-tight truncate">{project.name}</h1>
+              <p className="text-muted-foreground">
+                Colosseum {hackathon.name}
+                {project.submittedAt && ` • Submitted ${new Date(project.submittedAt).toLocaleDateString()}`}
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            <BookmarkButton projectId={project.id} size="sm" variant="outline" />
+            <Link
+              href={getArenaUrl(project)}
+              target="_blank"
+            >
+              <Button variant="outline" size="sm">
+                <ExternalLink className="h-4 w-4 mr-2" />
+                Arena
+              </Button>
+            </Link>
+          </div>
+        </div>
+
+        <Card>
+          <CardContent className="pt-6 space-y-6">
+            <ProjectAnnotations projectId={project.id} />
+            <ScoringPanel projectId={project.id} />
+            <ProjectDetail project={project} defaultExpanded />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
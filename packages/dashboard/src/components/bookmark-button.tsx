@@ -0,0 +1,43 @@
+'use client';
+
+import { Button, ButtonProps } from '@/components/ui/button';
+import { useWatchlist } from '@/hooks/use-watchlist';
+import { cn } from '@/lib/utils';
+import { Star } from 'lucide-react';
+
+export interface BookmarkButtonProps {
+  projectId: number;
+  size?: ButtonProps['size'];
+  variant?: ButtonProps['variant'];
+  className?: string;
+}
+
+export function BookmarkButton({ projectId, size = 'icon', variant = 'ghost', className }: BookmarkButtonProps) {
+  const { isWatched, toggleWatched } = useWatchlist();
+  const watched = isWatched(projectId);
+  const label = watched ? 'Remove from watchlist' : 'Add to watchlist';
+
+  return (
+    <Button
+      variant={variant}
+      size={size}
+      onClick={(e) => {
+        // Rows and cards are often clickable themselves
+        e.stopPropagation();
+        toggleWatched(projectId);
+      }}
+      className={cn(size === 'icon' && 'h-7 w-7 p-0', className)}
+      title={label}
+      aria-label={label}
+      aria-pressed={watched}
+    >
+      <Star
+        className={cn(
+          'h-3.5 w-3.5 transition-colors',
+          watched ? 'fill-amber-400 text-amber-400' : 'text-muted-foreground'
+        )}
+      />
+      {size !== 'icon' && <span className="ml-2">{watched ? 'Watching' : 'Watch'}</span>}
+    </Button>
+  );
+}
@@ -0,0 +1,153 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { TagChip } from '@/components/tags';
+import { ProjectTag } from '@/types/annotation';
+import { useAnnotations } from '@/hooks/use-annotations';
+import { TAG_COLOR_NAMES, parseAnnotationsFile, serializeAnnotations } from '@/lib/annotations';
+import { downloadFile } from '@/lib/api';
+import { Tags, ChevronDown, Download, Palette, Upload, X, AlertCircle } from 'lucide-react';
+
+/**
+ * Manage tags and move notes and tags between browsers
+ */
+export function AnnotationsMenu() {
+  const { annotations, tags, setTagColor, deleteTag, importAnnotations } = useAnnotations();
+  const [isOpen, setIsOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+      return () => document.removeEventListener('mousedown', handleClickOutside);
+    }
+  }, [isOpen]);
+
+  const annotatedCount = Object.keys(annotations.projects).length;
+
+  const usageCount = (tag: ProjectTag) =>
+    Object.values(annotations.projects).filter(annotation => annotation.tagIds.includes(tag.id)).length;
+
+  const handleCycleColor = (tag: ProjectTag) => {
+    const next = TAG_COLOR_NAMES[(TAG_COLOR_NAMES.indexOf(tag.color) + 1) % TAG_COLOR_NAMES.length];
+    setTagColor(tag.id, next);
+  };
+
+  const handleDelete = (tag: ProjectTag) => {
+    const count = usageCount(tag);
+    if (count > 0 && !window.confirm(`Remove "${tag.name}" from ${count} project${count === 1 ? '' : 's'}?`)) {
+      return;
+    }
+    deleteTag(tag.id);
+  };
+
+  const handleExport = () => {
+    downloadFile(serializeAnnotations(annotations), 'colosseum_notes_and_tags.json', 'application/json');
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      importAnnotations(parseAnnotationsFile(await file.text()));
+      setError(null);
+    } catch (error) {
+      console.error('Failed to import notes and tags:', error);
+      setError(error instanceof Error ? error.message : 'Unable to import notes and tags');
+    }
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <Button variant="outline" size="sm" onClick={() => setIsOpen(!isOpen)}>
+        <Tags className="mr-2 h-4 w-4" />
+        Tags
+        <ChevronDown className="ml-1 h-3 w-3 opacity-50" />
+      </Button>
+
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-1 w-72 bg-popover border rounded-md shadow-lg z-50">
+          {/* Tags */}
+          <div className="max-h-60 overflow-y-auto py-1">
+            {tags.length === 0 ? (
+              <p className="px-3 py-2 text-xs text-muted-foreground">
+                No tags yet. Add them from a project or the bulk actions bar.
+              </p>
+            ) : (
+              tags.map((tag) => (
+                <div key={tag.id} className="flex items-center gap-2 px-3 py-1.5 hover:bg-accent transition-colors">
+                  <TagChip tag={tag} />
+                  <span className="flex-1 text-xs text-muted-foreground">{usageCount(tag)}</span>
+                  <button
+                    onClick={() => handleCycleColor(tag)}
+                    className="shrink-0 text-muted-foreground hover:text-foreground"
+                    title="Change color"
+                  >
+                    <Palette className="h-3 w-3" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(tag)}
+                    className="shrink-0 text-muted-foreground hover:text-destructive"
+                    title={`Delete "${tag.name}"`}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+              ))
+            )}
+          </div>
+
+          {/* Share */}
+          <div className="flex gap-2 p-2 border-t">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+              className="flex-1 h-8 text-xs"
+            >
+              <Upload className="mr-1 h-3 w-3" />
+              Import
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleExport}
+              disabled={tags.length === 0 && annotatedCount === 0}
+              className="flex-1 h-8 text-xs"
+            >
+              <Download className="mr-1 h-3 w-3" />
+              Export
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImport(file);
+                // Allow picking the same file again
+                e.target.value = '';
+              }}
+            />
+          </div>
+
+          {error && (
+            <div className="flex items-center gap-1 px-3 pb-2 text-xs text-destructive">
+              <AlertCircle className="h-3 w-3 shrink-0" />
+              {error}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Project } from '@/types/project';
+import { ProjectTag } from '@/types/annotation';
+import { useProjects } from '@/hooks/use-projects';
+import { useWatchlist } from '@/hooks/use-watchlist';
+import { useAnnotations } from '@/hooks/use-annotations';
+import { TagPicker } from '@/components/tags';
+import { CsvExportDialog } from '@/components/dashboard/csv-export-dialog';
+import { exportToCSV, exportToJSON } from '@/lib/api';
+import { getComparePath, MAX_COMPARE_PROJECTS } from '@/lib/compare';
+import { CsvExportOptions } from '@/lib/csv-export';
+import { getArenaUrl } from '@/lib/utils';
+import { Braces, CheckSquare, Download, GitCompare, Link2, Star, X } from 'lucide-react';
+
+interface BulkActionsBarProps {
+  // In the order they were picked
+  selectedProjects: Project[];
+  // Projects matching the current filters, in table order
+  matchingIds: number[];
+  onSelectAllMatching: () => void;
+  onClear: () => void;
+}
+
+export function BulkActionsBar({ selectedProjects, matchingIds, onSelectAllMatching, onClear }: BulkActionsBarProps) {
+  const router = useRouter();
+  const { hackathon } = useProjects();
+  const { addToWatchlist } = useWatchlist();
+  const { annotations, tags, addTagToProjects } = useAnnotations();
+  const [status, setStatus] = useState<string | null>(null);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+
+  // Status messages fade after a few seconds
+  useEffect(() => {
+    if (!status) return;
+    const timeout = setTimeout(() => setStatus(null), 3000);
+    return () => clearTimeout(timeout);
+  }, [status]);
+
+  const count = selectedProjects.length;
+  const matching = new Set(matchingIds);
+  const hiddenCount = selectedProjects.filter(project => !matching.has(project.id)).length;
+  const allMatchingSelected = count - hiddenCount === matchingIds.length;
+  const canCompare = count >= 2 && count <= MAX_COMPARE_PROJECTS;
+  const fileBaseName = `colosseum_${hackathon.slug}_selected`;
+  // Tags every selected project already has are ticked in the picker
+  const sharedTagIds = count === 0 ? [] : tags
+    .filter(tag => selectedProjects.every(project => annotations.projects[project.id]?.tagIds.includes(tag.id)))
+    .map(tag => tag.id);
+
+  const handleExportCSV = (options: CsvExportOptions) => {
+    exportToCSV(selectedProjects, `${fileBaseName}.csv`, annotations, options);
+    setStatus(`Exported ${count} projects`);
+  };
+
+  const handleExportJSON = () => {
+    exportToJSON(selectedProjects, `${fileBaseName}.json`);
+    setStatus(`Exported ${count} projects`);
+  };
+
+  const handleAddToWatchlist = () => {
+    addToWatchlist(selectedProjects.map(project => project.id));
+    setStatus(`Added ${count} to watchlist`);
+  };
+
+  const handleAddTag = (tag: ProjectTag) => {
+    addTagToProjects(tag.id, selectedProjects.map(project => project.id));
+    setStatus(`Tagged ${count} as ${tag.name}`);
+  };
+
+  const handleCopyLinks = async () => {
+    try {
+      await navigator.clipboard.writeText(selectedProjects.map(getArenaUrl).join('\n'));
+      setStatus(`Copied ${count} Arena links`);
+    } catch (error) {
+      console.error('Failed to copy Arena links:', error);
+      setStatus('Unable to copy links');
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 px-3 py-2 rounded-md border bg-muted/40 text-sm">
+      <span className="font-medium">{count} selected</span>
+      {hiddenCount > 0 && (
+        <span className="text-xs text-muted-foreground">({hiddenCount} hidden by filters)</span>
+      )}
+      {!allMatchingSelected && (
+        <Button variant="ghost" size="sm" onClick={onSelectAllMatching} className="h-7 px-2 text-xs">
+          <CheckSquare className="mr-1 h-3 w-3" />
+          Select all {matchingIds.length} matching
+        </Button>
+      )}
+
+      <div className="flex flex-wrap items-center gap-1 ml-auto">
+        {status && <span className="text-xs text-muted-foreground mr-2">{status}</span>}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => router.push(getComparePath(selectedProjects.map(project => project.id)))}
+          disabled={!canCompare}
+          title={canCompare ? 'Compare selected projects' : `Select 2 to ${MAX_COMPARE_PROJECTS} projects to compare`}
+          className="h-7 px-2 text-xs"
+        >
+          <GitCompare className="mr-1 h-3 w-3" />
+          Compare
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => setIsExportOpen(true)} className="h-7 px-2 text-xs">
+          <Download className="mr-1 h-3 w-3" />
+          CSV
+        </Button>
+        <Button variant="outline" size="sm" onClick={handleExportJSON} className="h-7 px-2 text-xs">
+          <Braces className="mr-1 h-3 w-3" />
+          JSON
+        </Button>
+        <Button variant="outline" size="sm" onClick={handleAddToWatchlist} className="h-7 px-2 text-xs">
+          <Star className="mr-1 h-3 w-3" />
+          Watch
+        </Button>
+        <TagPicker selectedTagIds={sharedTagIds} onSelect={handleAddTag} />
+        <Button variant="outline" size="sm" onClick={handleCopyLinks} className="h-7 px-2 text-xs">
+          <Link2 className="mr-1 h-3 w-3" />
+          Copy Arena links
+        </Button>
+        <Button variant="ghost" size="sm" onClick={onClear} className="h-7 px-2" title="Clear selection">
+          <X className="h-3 w-3" />
+        </Button>
+      </div>
+
+      <CsvExportDialog
+        open={isExportOpen}
+        onOpenChange={setIsExportOpen}
+        projectCount={count}
+        onExport={handleExportCSV}
+      />
+    </div>
+  );
+}
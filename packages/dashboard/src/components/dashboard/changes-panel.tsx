@@ -0,0 +1,148 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Project } from "@/types/project";
+import { ProjectsDiff } from "@/types/diff";
+import { formatNumber } from "@/lib/utils";
+import { hasChanges } from "@/lib/diff";
+import { History, ChevronDown, ChevronUp, Check, Heart, MessageSquare } from "lucide-react";
+
+interface ChangesPanelProps {
+  changes: ProjectsDiff | null;
+  projects: Project[];
+  onMarkSeen: () => void;
+}
+
+const MAX_LISTED = 10;
+
+function formatDelta(value: number): string {
+  return `${value > 0 ? '+' : ''}${formatNumber(value)}`;
+}
+
+export function ChangesPanel({ changes, projects, onMarkSeen }: ChangesPanelProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  const projectsById = useMemo(
+    () => new Map(projects.map(project => [project.id, project])),
+    [projects]
+  );
+
+  const summary = useMemo(() => {
+    if (!changes) return null;
+
+    const movers = changes.changed
+      .filter(change => change.likesDelta !== 0 || change.commentsDelta !== 0)
+      .sort((a, b) => (b.likesDelta - a.likesDelta) || (b.commentsDelta - a.commentsDelta));
+    const edited = changes.changed.filter(change => change.tracksChanged || change.descriptionChanged);
+
+    return { movers, edited };
+  }, [changes]);
+
+  if (!hasChanges(changes) || !summary) return null;
+
+  const sections = [
+    changes.added.length > 0 && `${changes.added.length} new`,
+    changes.removed.length > 0 && `${changes.removed.length} removed`,
+    summary.movers.length > 0 && `${summary.movers.length} with new likes/comments`,
+    summary.edited.length > 0 && `${summary.edited.length} edited`,
+  ].filter(Boolean);
+
+  return (
+    <Card className="border-hakata-purple/30 bg-hakata-purple/5">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center gap-3">
+          <History className="h-4 w-4 text-hakata-light-purple shrink-0" />
+          <button
+            onClick={() => setIsExpanded(prev => !prev)}
+            className="flex items-center gap-2 text-left flex-1 min-w-0"
+          >
+            <span className="text-sm font-semibold">Unseen changes</span>
+            <span className="text-xs text-muted-foreground truncate">
+              since {changes.since.toLocaleString()} · {sections.join(', ')}
+            </span>
+            {isExpanded ? (
+              <ChevronUp className="h-4 w-4 shrink-0" />
+            ) : (
+              <ChevronDown className="h-4 w-4 shrink-0" />
+            )}
+          </button>
+          <Button variant="outline" size="sm" onClick={onMarkSeen} className="shrink-0">
+            <Check className="mr-1 h-3 w-3" />
+            Mark as seen
+          </Button>
+        </div>
+
+        {isExpanded && (
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4 text-xs">
+            {changes.added.length > 0 && (
+              <div className="space-y-1">
+                <div className="font-semibold text-green-400">New submissions</div>
+                {changes.added.slice(0, MAX_LISTED).map(project => (
+                  <div key={project.id} className="truncate">{project.name}</div>
+                ))}
+                {changes.added.length > MAX_LISTED && (
+                  <div className="text-muted-foreground">… and {changes.added.length - MAX_LISTED} more</div>
+                )}
+              </div>
+            )}
+
+            {summary.movers.length > 0 && (
+              <div className="space-y-1">
+                <div className="font-semibold text-red-400">Biggest movers</div>
+                {summary.movers.slice(0, MAX_LISTED).map(change => (
+                  <div key={change.projectId} className="flex items-center gap-2">
+                    <span className="truncate flex-1">
+                      {projectsById.get(change.projectId)?.name || `#${change.projectId}`}
+                    </span>
+                    <span className="flex items-center gap-1 shrink-0">
+                      <Heart className="h-3 w-3 text-red-500" />
+                      {formatDelta(change.likesDelta)}
+                    </span>
+                    <span className="flex items-center gap-1 shrink-0">
+                      <MessageSquare className="h-3 w-3 text-blue-500" />
+                      {formatDelta(change.commentsDelta)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {summary.edited.length > 0 && (
+              <div className="space-y-1">
+                <div className="font-semibold text-amber-400">Edited</div>
+                {summary.edited.slice(0, MAX_LISTED).map(change => (
+                  <div key={change.projectId} className="truncate">
+                    {projectsById.get(change.projectId)?.name || `#${change.projectId}`}
+                    <span className="text-muted-foreground">
+                      {' '}({[
+                        change.tracksChanged && 'tracks',
+                        change.descriptionChanged && 'description',
+                      ].filter(Boolean).join(', ')})
+                    </span>
+                  </div>
+                ))}
+                {summary.edited.length > MAX_LISTED && (
+                  <div className="text-muted-foreground">… and {summary.edited.length - MAX_LISTED} more</div>
+                )}
+              </div>
+            )}
+
+            {changes.removed.length > 0 && (
+              <div className="space-y-1">
+                <div className="font-semibold text-muted-foreground">Removed</div>
+                {changes.removed.slice(0, MAX_LISTED).map(project => (
+                  <div key={project.id} className="truncate line-through opacity-70">{project.name}</div>
+                ))}
+                {changes.removed.length > MAX_LISTED && (
+                  <div className="text-muted-foreground">… and {changes.removed.length - MAX_LISTED} more</div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
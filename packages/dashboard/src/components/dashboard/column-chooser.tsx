@@ -0,0 +1,95 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { ColumnId, ColumnLayout, COLUMNS_BY_ID } from '@/lib/table-columns';
+import { ArrowDown, ArrowUp, Check, Columns3, RotateCcw } from 'lucide-react';
+
+interface ColumnChooserProps {
+  layout: ColumnLayout;
+  onToggleColumn: (id: ColumnId) => void;
+  onMoveColumn: (id: ColumnId, direction: -1 | 1) => void;
+  onReset: () => void;
+}
+
+export function ColumnChooser({ layout, onToggleColumn, onMoveColumn, onReset }: ColumnChooserProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+      return () => document.removeEventListener('mousedown', handleClickOutside);
+    }
+  }, [isOpen]);
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <Button variant="outline" size="sm" onClick={() => setIsOpen(!isOpen)} title="Show, hide and reorder columns">
+        <Columns3 className="mr-2 h-4 w-4" />
+        Columns
+      </Button>
+
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-1 w-64 bg-popover border rounded-md shadow-lg z-50">
+          <div className="max-h-80 overflow-y-auto py-1">
+            {layout.order.map((id, index) => {
+              const column = COLUMNS_BY_ID[id];
+              const isVisible = !layout.hidden.includes(id);
+
+              return (
+                <div key={id} className="flex items-center gap-1 px-2 hover:bg-accent transition-colors">
+                  <button
+                    onClick={() => onToggleColumn(id)}
+                    disabled={column.required}
+                    className="flex flex-1 min-w-0 items-center gap-2 py-1.5 text-sm text-left disabled:cursor-not-allowed disabled:opacity-60"
+                    title={column.required ? 'Always shown' : isVisible ? `Hide ${column.label}` : `Show ${column.label}`}
+                  >
+                    <span className="flex h-4 w-4 shrink-0 items-center justify-center rounded border">
+                      {isVisible && <Check className="h-3 w-3" />}
+                    </span>
+                    <span className="truncate">{column.id === 'rank' ? 'Rank (#)' : column.label}</span>
+                    {column.trendingOnly && (
+                      <span className="shrink-0 text-[10px] text-muted-foreground">Trending</span>
+                    )}
+                  </button>
+                  <button
+                    onClick={() => onMoveColumn(id, -1)}
+                    disabled={index === 0}
+                    className="p-1 text-muted-foreground hover:text-foreground disabled:opacity-30"
+                    title="Move left"
+                  >
+                    <ArrowUp className="h-3 w-3" />
+                  </button>
+                  <button
+                    onClick={() => onMoveColumn(id, 1)}
+                    disabled={index === layout.order.length - 1}
+                    className="p-1 text-muted-foreground hover:text-foreground disabled:opacity-30"
+                    title="Move right"
+                  >
+                    <ArrowDown className="h-3 w-3" />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="flex items-center justify-between gap-2 p-2 border-t">
+            <span className="text-[10px] text-muted-foreground">Drag header edges to resize</span>
+            <Button variant="ghost" size="sm" onClick={onReset} className="h-7 px-2 text-xs">
+              <RotateCcw className="mr-1 h-3 w-3" />
+              Reset
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
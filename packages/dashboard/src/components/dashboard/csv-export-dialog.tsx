@@ -0,0 +1,164 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useCsvExportOptions } from '@/hooks/use-csv-export-options';
+import { CSV_COLUMNS_BY_ID, CsvExportOptions, getExportedColumns } from '@/lib/csv-export';
+import { CSV_DELIMITERS, CsvDelimiter } from '@/lib/csv';
+import { ArrowDown, ArrowUp, Check, Download, RotateCcw } from 'lucide-react';
+
+interface CsvExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectCount: number;
+  onExport: (options: CsvExportOptions) => void;
+}
+
+/**
+ * Picks the columns, their order and the format of a CSV export. The choice
+ * is remembered for next time.
+ */
+export function CsvExportDialog({ open, onOpenChange, projectCount, onExport }: CsvExportDialogProps) {
+  const {
+    options,
+    toggleColumn,
+    moveColumn,
+    setAllColumns,
+    setDelimiter,
+    setBom,
+    setEscapeFormulas,
+    resetOptions,
+  } = useCsvExportOptions();
+  const columnCount = getExportedColumns(options).length;
+
+  const handleExport = () => {
+    onExport(options);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Export CSV</DialogTitle>
+          <DialogDescription>
+            {projectCount} project{projectCount === 1 ? '' : 's'}, {columnCount} of {options.order.length} columns
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2 text-xs">
+          <Button variant="ghost" size="sm" onClick={() => setAllColumns(true)} className="h-7 px-2 text-xs">
+            All
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => setAllColumns(false)} className="h-7 px-2 text-xs">
+            None
+          </Button>
+          <Button variant="ghost" size="sm" onClick={resetOptions} className="h-7 px-2 text-xs ml-auto">
+            <RotateCcw className="mr-1 h-3 w-3" />
+            Reset
+          </Button>
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-y-auto rounded-md border py-1">
+          {options.order.map((id, index) => {
+            const column = CSV_COLUMNS_BY_ID[id];
+            const isIncluded = !options.excluded.includes(id);
+
+            return (
+              <div key={id} className="flex items-center gap-1 px-2 hover:bg-accent transition-colors">
+                <button
+                  onClick={() => toggleColumn(id)}
+                  className="flex flex-1 min-w-0 items-center gap-2 py-1.5 text-sm text-left"
+                  title={isIncluded ? `Leave out ${column.label}` : `Include ${column.label}`}
+                >
+                  <span className="flex h-4 w-4 shrink-0 items-center justify-center rounded border">
+                    {isIncluded && <Check className="h-3 w-3" />}
+                  </span>
+                  <span className="truncate">{column.label}</span>
+                  {column.legacy && (
+                    <span className="shrink-0 text-[10px] text-muted-foreground" title="Empty for newer projects">
+                      Legacy
+                    </span>
+                  )}
+                </button>
+                <button
+                  onClick={() => moveColumn(id, -1)}
+                  disabled={index === 0}
+                  className="p-1 text-muted-foreground hover:text-foreground disabled:opacity-30"
+                  title="Move up"
+                >
+                  <ArrowUp className="h-3 w-3" />
+                </button>
+                <button
+                  onClick={() => moveColumn(id, 1)}
+                  disabled={index === options.order.length - 1}
+                  className="p-1 text-muted-foreground hover:text-foreground disabled:opacity-30"
+                  title="Move down"
+                >
+                  <ArrowDown className="h-3 w-3" />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4 text-sm">
+          <label className="flex items-center gap-2">
+            Delimiter
+            <Select value={options.delimiter} onValueChange={(value) => setDelimiter(value as CsvDelimiter)}>
+              <SelectTrigger className="w-32 h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CSV_DELIMITERS.map((option) => (
+                  <SelectItem key={option.label} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </label>
+          <label className="flex items-center gap-2" title="Helps Excel read accented characters and emoji">
+            <input
+              type="checkbox"
+              checked={options.bom}
+              onChange={(e) => setBom(e.target.checked)}
+              className="h-4 w-4 accent-hakata-purple"
+            />
+            Excel compatible (UTF-8 BOM)
+          </label>
+          <label
+            className="flex items-center gap-2"
+            title="Prefixes text starting with =, +, -, @ with ' so spreadsheets show it instead of running it"
+          >
+            <input
+              type="checkbox"
+              checked={options.escapeFormulas}
+              onChange={(e) => setEscapeFormulas(e.target.checked)}
+              className="h-4 w-4 accent-hakata-purple"
+            />
+            Block spreadsheet formulas
+          </label>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={columnCount === 0 || projectCount === 0}>
+            <Download className="mr-2 h-4 w-4" />
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -7,7 +7,12 @@ import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Project, FilterOptions } from "@/types/project";
 import { getUniqueValues } from "@/lib/utils";
-import { Filter, X, ChevronRight, Plus, Check } from "lucide-react";
+import { useWatchlist } from "@/hooks/use-watchlist";
+import { useAnnotations } from "@/hooks/use-annotations";
+import { FacetCounts } from "@/lib/search-engine";
+import { PROJECT_LINKS, PROJECT_LINK_TYPES } from "@/lib/project-links";
+import { DEFAULT_FILTERS } from "@/lib/url-state";
+import { Filter, X, ChevronRight, Plus, Minus, Check, Star, GraduationCap } from "lucide-react";
 
 interface FilterSidebarProps {
   projects: Project[];
@@ -15,17 +20,26 @@ interface FilterSidebarProps {
   onFiltersChange: (filters: Partial<FilterOptions>) => void;
   isOpen: boolean;
   onClose: () => void;
+  // Per-option match counts from the last search; options stay unsorted without them
+  facets?: FacetCounts | null;
 }
 
 interface AutocompleteInputProps {
   label: string;
   placeholder: string;
   selectedItems: string[];
+  // Omit for facets that can't be excluded
+  excludedItems?: string[];
   availableItems: string[];
-  onItemsChange: (items: string[]) => void;
+  counts?: Record<string, number>;
+  // Rendered beside the label, e.g. the match any/all toggle
+  action?: React.ReactNode;
+  onItemsChange: (items: string[], excludedItems: string[]) => void;
 }
 
-function AutocompleteInput({ label, placeholder, selectedItems, availableItems, onItemsChange }: AutocompleteInputProps) {
+function AutocompleteInput({ label, placeholder, selectedItems, excludedItems: excludedProp, availableItems, counts, action, onItemsChange }: AutocompleteInputProps) {
+  const canExclude = excludedProp !== undefined;
+  const excludedItems = excludedProp ?? [];
   const [inputValue, setInputValue] = useState('');
   const [isOpen, setIsOpen] = useState(false);
   const [highlightedIndex, setHighlightedIndex] = useState(-1);
@@ -34,8 +48,15 @@ function AutocompleteInput({ label, placeholder, selectedItems, availableItems,
 
   const filteredItems = availableItems.filter(item => 
     !selectedItems.includes(item) && 
+    !excludedItems.includes(item) &&
     item.toLowerCase().includes(inputValue.toLowerCase())
-  ).slice(0, 8); // Limit to 8 suggestions
+  );
+
+  // Most matching projects first, so dead ends sink to the bottom
+  if (counts) {
+    filteredItems.sort((a, b) => (counts[b] || 0) - (counts[a] || 0) || a.localeCompare(b));
+  }
+  filteredItems.splice(8); // Limit to 8 suggestions
 
   const handleInputChange = (value: string) => {
     setInputValue(value);
@@ -45,7 +66,7 @@ function AutocompleteInput({ label, placeholder, selectedItems, availableItems,
 
   const handleSelectItem = (item: string) => {
     if (!selectedItems.includes(item)) {
-      onItemsChange([...selectedItems, item]);
+      onItemsChange([...selectedItems, item], excludedItems.filter(i => i !== item));
     }
     setInputValue('');
     setIsOpen(false);
@@ -53,7 +74,16 @@ function AutocompleteInput({ label, placeholder, selectedItems, availableItems,
   };
 
   const handleRemoveItem = (item: string) => {
-    onItemsChange(selectedItems.filter(i => i !== item));
+    onItemsChange(selectedItems.filter(i => i !== item), excludedItems.filter(i => i !== item));
+  };
+
+  // Chips flip between "must match" and "must not match"
+  const handleToggleItem = (item: string) => {
+    if (excludedItems.includes(item)) {
+      onItemsChange([...selectedItems, item], excludedItems.filter(i => i !== item));
+    } else {
+      onItemsChange(selectedItems.filter(i => i !== item), [...excludedItems, item]);
+    }
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
@@ -97,7 +127,12 @@ function AutocompleteInput({ label, placeholder, selectedItems, availableItems,
 
   return (
     <div className="space-y-3">
-      <Label className="text-sm font-semibold">{label} ({selectedItems.length} selected)</Label>
+      <div className="flex items-center justify-between">
+        <Label className="text-sm font-semibold">
+          {label} ({selectedItems.length} selected{excludedItems.length > 0 && `, ${excludedItems.length} excluded`})
+        </Label>
+        {action}
+      </div>
       
       <div className="relative" ref={dropdownRef}>
         <div className="flex gap-2">
@@ -127,63 +162,107 @@ function AutocompleteInput({ label, placeholder, selectedItems, availableItems,
         {/* Dropdown */}
         {isOpen && filteredItems.length > 0 && (
           <div className="absolute top-full left-0 right-0 mt-1 bg-popover border rounded-md shadow-lg z-50 max-h-48 overflow-y-auto">
-            {filteredItems.map((item, index) => (
-              <button
-                key={item}
-                onClick={() => handleSelectItem(item)}
-                className={`w-full text-left px-3 py-2 text-sm hover:bg-accent transition-colors flex items-center justify-between ${
-                  index === highlightedIndex ? 'bg-accent' : ''
-                }`}
-              >
-                <span>{item}</span>
-                <Check className="h-3 w-3 opacity-50" />
-              </button>
-            ))}
+            {filteredItems.map((item, index) => {
+              const count = counts ? counts[item] || 0 : undefined;
+
+              return (
+                <button
+                  key={item}
+                  onClick={() => handleSelectItem(item)}
+                  className={`w-full text-left px-3 py-2 text-sm hover:bg-accent transition-colors flex items-center justify-between gap-2 ${
+                    index === highlightedIndex ? 'bg-accent' : ''
+                  } ${count === 0 ? 'text-muted-foreground opacity-60' : ''}`}
+                >
+                  <span className="truncate">{item}</span>
+                  {count !== undefined ? (
+                    <span className="shrink-0 text-xs tabular-nums text-muted-foreground">{count}</span>
+                  ) : (
+                    <Check className="h-3 w-3 opacity-50" />
+                  )}
+                </button>
+              );
+            })}
           </div>
         )}
       </div>
 
-      {/* Selected items */}
-      {selectedItems.length > 0 && (
+      {/* Selected items: click to include/exclude (where supported), X to remove */}
+      {(selectedItems.length > 0 || excludedItems.length > 0) && (
         <div className="flex flex-wrap gap-2">
-          {selectedItems.map((item) => (
-            <Button
-              key={item}
-              variant="secondary"
-              size="sm"
-              onClick={() => handleRemoveItem(item)}
-              className="h-7 px-3 text-xs hover:bg-destructive/10 hover:text-destructive transition-colors"
-            >
-              {item}
-              <X className="ml-1 h-3 w-3" />
-            </Button>
-          ))}
+          {[...selectedItems, ...excludedItems].map((item) => {
+            const isExcluded = excludedItems.includes(item);
+
+            return (
+              <div
+                key={item}
+                className={`inline-flex items-center h-7 rounded-md text-xs ${
+                  isExcluded
+                    ? 'bg-destructive/10 text-destructive'
+                    : 'bg-secondary text-secondary-foreground'
+                }`}
+              >
+                {canExclude ? (
+                  <button
+                    onClick={() => handleToggleItem(item)}
+                    title={isExcluded ? `Include ${item}` : `Exclude ${item}`}
+                    className={`flex items-center h-full pl-3 pr-1 font-medium hover:opacity-80 ${isExcluded ? 'line-through' : ''}`}
+                  >
+                    {isExcluded && <Minus className="mr-1 h-3 w-3" />}
+                    {item}
+                  </button>
+                ) : (
+                  <span className="flex items-center h-full pl-3 pr-1 font-medium">{item}</span>
+                )}
+                <button
+                  onClick={() => handleRemoveItem(item)}
+                  title={`Remove ${item}`}
+                  className="flex items-center h-full pl-1 pr-2 hover:text-destructive"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </div>
+            );
+          })}
         </div>
       )}
     </div>
   );
 }
 
-export function FilterSidebar({ projects, filters, onFiltersChange, isOpen, onClose }: FilterSidebarProps) {
+export function FilterSidebar({ projects, filters, onFiltersChange, isOpen, onClose, facets }: FilterSidebarProps) {
   const sidebarRef = useRef<HTMLDivElement>(null);
+  const { count: watchlistCount } = useWatchlist();
   const allTracks = getUniqueValues(projects, 'tracks');
   const allCountries = getUniqueValues(projects, 'country');
+  const allUniversities = getUniqueValues(projects, 'universityName');
+  const { tags } = useAnnotations();
 
   const updateFilters = (updates: Partial<FilterOptions>) => {
     onFiltersChange(updates);
   };
 
+  // Sorting isn't a filter, so it is kept
   const clearFilters = () => {
     onFiltersChange({
-      search: '',
-      tracks: [],
-      countries: [],
-      teamSizeRange: [1, 50],
-      likesRange: [0, 100],
+      ...DEFAULT_FILTERS,
+      sortBy: filters.sortBy,
+      sortOrder: filters.sortOrder,
+      thenBy: filters.thenBy,
+      momentumWindow: filters.momentumWindow,
     });
   };
 
-  const hasActiveFilters = filters.search || filters.tracks.length > 0 || filters.countries.length > 0;
+  const hasActiveFilters = filters.search ||
+    filters.tracks.length > 0 ||
+    filters.countries.length > 0 ||
+    filters.excludedTracks.length > 0 ||
+    filters.excludedCountries.length > 0 ||
+    filters.submittedRange.some(Boolean) ||
+    filters.universityOnly ||
+    filters.universities.length > 0 ||
+    filters.requiredLinks.length > 0 ||
+    filters.tags.length > 0 ||
+    filters.watchlistOnly;
 
   // Close on outside click (but not when interacting with dropdowns)
   useEffect(() => {
@@ -287,21 +366,72 @@ export function FilterSidebar({ projects, filters, onFiltersChange, isOpen, onCl
                   <div className="text-xs text-hakata-purple/80 dark:text-hakata-light-purple/80">
                     {[
                       filters.search && `Search: "${filters.search}"`,
-                      filters.tracks.length > 0 && `${filters.tracks.length} track${filters.tracks.length > 1 ? 's' : ''}`,
-                      filters.countries.length > 0 && `${filters.countries.length} countr${filters.countries.length > 1 ? 'ies' : 'y'}`
+                      filters.tracks.length > 0 && `${filters.tracks.length} track${filters.tracks.length > 1 ? 's' : ''}${filters.tracks.length > 1 && filters.trackCombinator === 'and' ? ' (all)' : ''}`,
+                      filters.countries.length > 0 && `${filters.countries.length} countr${filters.countries.length > 1 ? 'ies' : 'y'}`,
+                      filters.excludedTracks.length > 0 && `${filters.excludedTracks.length} excluded track${filters.excludedTracks.length > 1 ? 's' : ''}`,
+                      filters.excludedCountries.length > 0 && `${filters.excludedCountries.length} excluded countr${filters.excludedCountries.length > 1 ? 'ies' : 'y'}`,
+                      filters.submittedRange.some(Boolean) && `Submitted ${filters.submittedRange[0] || '…'} – ${filters.submittedRange[1] || '…'}`,
+                      filters.universityOnly && 'University only',
+                      filters.universities.length > 0 && `${filters.universities.length} universit${filters.universities.length > 1 ? 'ies' : 'y'}`,
+                      filters.requiredLinks.length > 0 && `Has ${filters.requiredLinks.map(link => PROJECT_LINKS[link].label.toLowerCase()).join(' & ')}`,
+                      filters.tags.length > 0 && `${filters.tags.length} tag${filters.tags.length > 1 ? 's' : ''}`,
+                      filters.watchlistOnly && 'Watchlist only'
                     ].filter(Boolean).join(', ')}
                   </div>
                 </CardContent>
               </Card>
             )}
 
+            {/* Watchlist */}
+            <div className="flex items-center justify-between">
+              <Label className="text-sm font-semibold">
+                Watchlist only ({watchlistCount})
+              </Label>
+              <Button
+                variant={filters.watchlistOnly ? "default" : "outline"}
+                size="sm"
+                onClick={() => updateFilters({ watchlistOnly: !filters.watchlistOnly })}
+                className="h-7 px-3 text-xs"
+              >
+                <Star className={`mr-1 h-3 w-3 ${filters.watchlistOnly ? 'fill-current' : ''}`} />
+                {filters.watchlistOnly ? 'On' : 'Off'}
+              </Button>
+            </div>
+
+            {/* Tags */}
+            {(tags.length > 0 || filters.tags.length > 0) && (
+              <AutocompleteInput
+                label="Tags"
+                placeholder="Type to search your tags..."
+                selectedItems={filters.tags}
+                availableItems={tags.map(tag => tag.name)}
+                counts={facets?.tags}
+                onItemsChange={(tags) => updateFilters({ tags })}
+              />
+            )}
+
             {/* Tracks */}
             <AutocompleteInput
               label="Tracks"
               placeholder="Type to search or add tracks..."
               selectedItems={filters.tracks}
+              excludedItems={filters.excludedTracks}
               availableItems={allTracks}
-              onItemsChange={(tracks) => updateFilters({ tracks })}
+              counts={facets?.tracks}
+              action={
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => updateFilters({ trackCombinator: filters.trackCombinator === 'and' ? 'or' : 'and' })}
+                  title={filters.trackCombinator === 'and'
+                    ? 'Projects must be in every selected track'
+                    : 'Projects can be in any selected track'}
+                  className="h-7 px-3 text-xs"
+                >
+                  Match {filters.trackCombinator === 'and' ? 'all' : 'any'}
+                </Button>
+              }
+              onItemsChange={(tracks, excludedTracks) => updateFilters({ tracks, excludedTracks })}
             />
 
             {/* Countries */}
@@ -309,10 +439,62 @@ export function FilterSidebar({ projects, filters, onFiltersChange, isOpen, onCl
               label="Countries"
               placeholder="Type to search or add countries..."
               selectedItems={filters.countries}
+              excludedItems={filters.excludedCountries}
               availableItems={allCountries}
-              onItemsChange={(countries) => updateFilters({ countries })}
+              counts={facets?.countries}
+              onItemsChange={(countries, excludedCountries) => updateFilters({ countries, excludedCountries })}
             />
 
+            {/* University */}
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label className="text-sm font-semibold">University only</Label>
+                <Button
+                  variant={filters.universityOnly ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => updateFilters({ universityOnly: !filters.universityOnly })}
+                  className="h-7 px-3 text-xs"
+                >
+                  <GraduationCap className="mr-1 h-3 w-3" />
+                  {filters.universityOnly ? 'On' : 'Off'}
+                </Button>
+              </div>
+              <AutocompleteInput
+                label="Universities"
+                placeholder="Type to search universities..."
+                selectedItems={filters.universities}
+                availableItems={allUniversities}
+                counts={facets?.universities}
+                onItemsChange={(universities) => updateFilters({ universities })}
+              />
+            </div>
+
+            {/* Links */}
+            <div className="space-y-3">
+              <Label className="text-sm font-semibold">Must have</Label>
+              <div className="flex flex-wrap gap-2">
+                {PROJECT_LINK_TYPES.map((link) => {
+                  const isRequired = filters.requiredLinks.includes(link);
+                  return (
+                    <Button
+                      key={link}
+                      variant={isRequired ? "default" : "outline"}
+                      size="sm"
+                      onClick={() => updateFilters({
+                        requiredLinks: isRequired
+                          ? filters.requiredLinks.filter(l => l !== link)
+                          : [...filters.requiredLinks, link]
+                      })}
+                      className="h-7 px-3 text-xs"
+                    >
+                      {isRequired && <Check className="mr-1 h-3 w-3" />}
+                      {PROJECT_LINKS[link].label}
+                    </Button>
+                  );
+                })}
+              </div>
+            </div>
+
             {/* Team Size Range */}
             <div className="space-y-3">
               <Label className="text-sm font-semibold">
@@ -384,6 +566,50 @@ export function FilterSidebar({ projects, filters, onFiltersChange, isOpen, onCl
                 </div>
               </div>
             </div>
+
+            {/* Submission Date Range */}
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label className="text-sm font-semibold">Submitted</Label>
+                {filters.submittedRange.some(Boolean) && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => updateFilters({ submittedRange: ['', ''] })}
+                    className="h-6 px-2 text-xs"
+                  >
+                    <X className="h-3 w-3 mr-1" />
+                    Clear
+                  </Button>
+                )}
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label className="text-xs text-muted-foreground">From</Label>
+                  <Input
+                    type="date"
+                    value={filters.submittedRange[0]}
+                    max={filters.submittedRange[1] || undefined}
+                    onChange={(e) => updateFilters({
+                      submittedRange: [e.target.value, filters.submittedRange[1]]
+                    })}
+                    className="mt-1"
+                  />
+                </div>
+                <div>
+                  <Label className="text-xs text-muted-foreground">To</Label>
+                  <Input
+                    type="date"
+                    value={filters.submittedRange[1]}
+                    min={filters.submittedRange[0] || undefined}
+                    onChange={(e) => updateFilters({
+                      submittedRange: [filters.submittedRange[0], e.target.value]
+                    })}
+                    className="mt-1"
+                  />
+                </div>
+              </div>
+            </div>
           </div>
         </div>
       </div>
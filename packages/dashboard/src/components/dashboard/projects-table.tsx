@@ -1,6 +1,7 @@
 "use client";
 
-import { useState, useMemo, useCallback, useEffect, useRef } from "react";
+import { Fragment, useState, useMemo, useCallback, useEffect, useRef } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import {
@@ -20,9 +21,37 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { SearchInput } from "@/components/ui/search-input";
+import { Sparkline } from "@/components/ui/sparkline";
+import { Highlight } from "@/components/ui/highlight";
 import { ProjectDescriptionModal } from "@/components/project-description-modal";
-import { Project, FilterOptions } from "@/types/project";
-import { formatNumber, truncate } from "@/lib/utils";
+import { SavedViewsMenu } from "@/components/dashboard/saved-views-menu";
+import { ColumnChooser } from "@/components/dashboard/column-chooser";
+import { AnnotationsMenu } from "@/components/dashboard/annotations-menu";
+import { BulkActionsBar } from "@/components/dashboard/bulk-actions-bar";
+import { TagChip } from "@/components/tags";
+import type { BookmarkButtonProps } from "@/components/bookmark-button";
+import { Project, FilterOptions, SortField, SortKey, SortOrder } from "@/types/project";
+import { MomentumWindow, ProjectMomentum } from "@/types/snapshot";
+import { ProjectChange, ProjectsDiff } from "@/types/diff";
+import { SavedView } from "@/types/saved-view";
+import { QueryError, SearchHighlight } from "@/types/search-query";
+import { formatNumber, getArenaUrl, truncate } from "@/lib/utils";
+import { MOMENTUM_WINDOWS } from "@/lib/momentum";
+import { DEFAULT_PAGINATION, PAGE_SIZE_OPTIONS, PaginationState, TableLayout } from "@/lib/url-state";
+import { useVirtualRows } from "@/hooks/use-virtual-rows";
+import { useColumnLayout } from "@/hooks/use-column-layout";
+import { ProjectSelection } from "@/hooks/use-project-selection";
+import { useAnnotations } from "@/hooks/use-annotations";
+import { useScoring } from "@/hooks/use-scoring";
+import { countScored, formatScore } from "@/lib/rubric";
+import {
+  ColumnDefinition,
+  ColumnId,
+  COLUMNS_BY_ID,
+  clampColumnWidth,
+  getColumnWidth,
+} from "@/lib/table-columns";
+import { getEngagementRatio } from "@/lib/engagement";
 import {
   Heart,
   MessageSquare,
@@ -33,99 +62,176 @@ import {
   ChevronsUpDown,
   SlidersHorizontal,
   Search,
+  TrendingUp,
+  CalendarClock,
+  GraduationCap,
+  AtSign,
+  Gauge,
+  Contact,
+  ClipboardCheck,
+  Tag,
+  StickyNote,
+  LucideIcon,
 } from "lucide-react";
 import Image from 'next/image';
 
 interface ProjectsTableProps {
   projects: Project[];
+  // Every project of the hackathon, so a shared ?project= link opens even when filtered out
+  allProjects: Project[];
   filters: FilterOptions;
   onFiltersChange: (filters: Partial<FilterOptions>) => void;
   onProjectClick?: (project: Project) => void;
-  BookmarkButton?: React.ComponentType<{
-    projectId: number;
-    size: string;
-    variant: string;
-  }>;
+  BookmarkButton?: React.ComponentType<BookmarkButtonProps>;
   // Search props
   searchValue: string;
   onSearchChange: (value: string) => void;
   isSearching?: boolean;
+  searchErrors?: QueryError[];
+  // Matches to mark in the name and description cells
+  highlight?: SearchHighlight | null;
   // Filter props
   hasActiveFilters: boolean;
   onOpenFilters: () => void;
   onClearFilters: () => void;
   // Loading prop
   isLoading?: boolean;
+  // Trending props
+  momentum?: Map<number, ProjectMomentum> | null;
+  isMomentumLoading?: boolean;
+  // Changes since the user last marked them seen
+  changes?: ProjectsDiff | null;
+  // Pagination is owned by useSearch so it round-trips through the URL
+  pagination: PaginationState;
+  onPaginationChange: (pagination: Partial<PaginationState>) => void;
+  // Ticked rows, owned by the page so its export can use them
+  selection: ProjectSelection;
+  selectedProjects: Project[];
 }
 
-const PAGE_SIZE_OPTIONS = [10, 20, 50, 100, 250];
-const DEFAULT_PAGE_SIZE = 20;
+// Rows are at least h-20; the scroll layout measures the real heights
+const ESTIMATED_ROW_HEIGHT = 80;
 
 // Create a new loading skeleton component for the table
-const TableLoadingSkeleton = () => (
+const TableLoadingSkeleton = ({ columns }: { columns: ColumnDefinition[] }) => (
   <>
     {[...Array(10)].map((_, i) => (
       <TableRow key={i} className="h-20 border-gray-800">
-        <TableCell className="py-2">
-          <div className="w-8 h-4 bg-gray-700 rounded animate-pulse" />
-        </TableCell>
-        <TableCell className="py-2">
-          <div className="space-y-2">
-            <div className="w-32 h-4 bg-gray-700 rounded animate-pulse" />
-            <div className="w-24 h-3 bg-gray-700 rounded animate-pulse" />
-          </div>
-        </TableCell>
-        <TableCell className="py-2">
-          <div className="space-y-2">
-            <div className="w-48 h-4 bg-gray-700 rounded animate-pulse" />
-            <div className="w-40 h-3 bg-gray-700 rounded animate-pulse" />
-            <div className="w-36 h-3 bg-gray-700 rounded animate-pulse" />
-          </div>
-        </TableCell>
-        <TableCell className="py-2 text-center">
-          <div className="w-20 h-4 bg-gray-700 rounded animate-pulse mx-auto" />
-        </TableCell>
-        <TableCell className="py-2 text-center">
-          <div className="w-16 h-4 bg-gray-700 rounded animate-pulse mx-auto" />
-        </TableCell>
-        <TableCell className="py-2 text-center">
-          <div className="w-12 h-4 bg-gray-700 rounded animate-pulse mx-auto" />
-        </TableCell>
-        <TableCell className="py-2 text-center">
-          <div className="w-12 h-4 bg-gray-700 rounded animate-pulse mx-auto" />
-        </TableCell>
-        <TableCell className="py-2 text-center">
-          <div className="w-12 h-4 bg-gray-700 rounded animate-pulse mx-auto" />
-        </TableCell>
-        <TableCell className="py-2 text-center">
-          <div className="flex items-center justify-center gap-1">
-            <div className="w-6 h-6 bg-gray-700 rounded animate-pulse" />
-            <div className="w-6 h-6 bg-gray-700 rounded animate-pulse" />
-            <div className="w-6 h-6 bg-gray-700 rounded animate-pulse" />
-          </div>
-        </TableCell>
+        {columns.map((column) => (
+          <TableCell
+            key={column.id}
+            className={`py-2 ${column.align === "center" ? "text-center" : ""}`}
+          >
+            {column.id === "project" || column.id === "description" ? (
+              <div className="space-y-2">
+                <div className="w-3/4 h-4 bg-gray-700 rounded animate-pulse" />
+                <div className="w-1/2 h-3 bg-gray-700 rounded animate-pulse" />
+              </div>
+            ) : (
+              <div
+                className={`w-2/3 max-w-16 h-4 bg-gray-700 rounded animate-pulse ${
+                  column.align === "center" ? "mx-auto" : ""
+                }`}
+              />
+            )}
+          </TableCell>
+        ))}
       </TableRow>
     ))}
   </>
 );
 
+interface ColumnResizeHandleProps {
+  width: number;
+  onResize: (width: number) => void;
+  onResizeEnd: (width: number) => void;
+}
+
+// Drag handle on a header's right edge
+function ColumnResizeHandle({ width, onResize, onResizeEnd }: ColumnResizeHandleProps) {
+  const dragRef = useRef<{ startX: number; startWidth: number; width: number } | null>(null);
+
+  return (
+    <div
+      role="separator"
+      aria-orientation="vertical"
+      className="absolute right-0 top-0 h-full w-1.5 cursor-col-resize select-none touch-none hover:bg-border"
+      onClick={(e) => e.stopPropagation()}
+      onPointerDown={(e) => {
+        e.preventDefault();
+        e.currentTarget.setPointerCapture(e.pointerId);
+        dragRef.current = { startX: e.clientX, startWidth: width, width };
+      }}
+      onPointerMove={(e) => {
+        const drag = dragRef.current;
+        if (!drag) return;
+        drag.width = drag.startWidth + e.clientX - drag.startX;
+        onResize(drag.width);
+      }}
+      onPointerUp={() => {
+        const drag = dragRef.current;
+        dragRef.current = null;
+        if (drag) onResizeEnd(drag.width);
+      }}
+    />
+  );
+}
+
+// Context for rendering one row's cells
+interface RowContext {
+  globalIndex: number;
+  // Position within the rendered rows
+  index: number;
+  teamSize: number;
+  change?: ProjectChange;
+  isNew: boolean;
+  isEdited: boolean;
+}
+
+const COLUMN_ICONS: Partial<Record<ColumnId, LucideIcon>> = {
+  tags: Tag,
+  country: MapPin,
+  likes: Heart,
+  comments: MessageSquare,
+  momentum: TrendingUp,
+  team: Users,
+  submitted: CalendarClock,
+  university: GraduationCap,
+  twitter: AtSign,
+  engagement: Gauge,
+  score: ClipboardCheck,
+  members: Contact,
+};
+
 export function ProjectsTable({
   projects,
+  allProjects,
   filters,
   onFiltersChange,
+  onProjectClick,
+  BookmarkButton,
   searchValue,
   onSearchChange,
   isSearching = false,
+  searchErrors = [],
+  highlight = null,
   isLoading = false,
   hasActiveFilters,
   onOpenFilters,
   onClearFilters,
+  momentum = null,
+  isMomentumLoading = false,
+  changes = null,
+  pagination,
+  onPaginationChange,
+  selection,
+  selectedProjects,
 }: ProjectsTableProps) {
-  const [currentPage, setCurrentPage] = useState(1);
-  const [itemsPerPage, setItemsPerPage] = useState(DEFAULT_PAGE_SIZE);
-  const [selectedProject, setSelectedProject] = useState<Project | null>(null);
+  const { page: currentPage, pageSize: itemsPerPage } = pagination;
   const [expandedDescriptions, setExpandedDescriptions] = useState<Set<number>>(new Set());
   const [teamPopover, setTeamPopover] = useState<number | null>(null);
+  const { getNote, getTags } = useAnnotations();
+  const { criteria, weightedScores, getScores } = useScoring();
 
   // Change the ref type to match the popover div
   const popoverRef = useRef<HTMLDivElement>(null);
@@ -152,6 +258,18 @@ export function ProjectsTable({
     [projects]
   );
   const projectCount = safeProjects.length;
+
+  // The open project lives in the URL (?project=<slug>) so it can be shared and
+  // the back button closes it
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const selectedSlug = searchParams.get("project");
+  const selectedProject = useMemo(
+    () => (selectedSlug ? allProjects.find((project) => project.slug === selectedSlug) ?? null : null),
+    [allProjects, selectedSlug]
+  );
+  // Whether opening the modal added a history entry we can pop on close
+  const pushedModalRef = useRef(false);
   const totalPages = Math.max(1, Math.ceil(projectCount / itemsPerPage));
 
   const paginatedProjects = useMemo(() => {
@@ -160,60 +278,186 @@ export function ProjectsTable({
     return safeProjects.slice(startIndex, startIndex + itemsPerPage);
   }, [safeProjects, currentPage, itemsPerPage, projectCount]);
 
+  // The scroll layout renders every result, but only the rows near the viewport
+  const isScrollLayout = pagination.layout === "scroll";
+  const projectKeys = useMemo(
+    () => safeProjects.map((project) => String(project.id)),
+    [safeProjects]
+  );
+  const virtualRows = useVirtualRows(projectKeys, {
+    enabled: isScrollLayout,
+    estimatedRowHeight: ESTIMATED_ROW_HEIGHT,
+  });
+  const visibleProjects = isScrollLayout
+    ? safeProjects.slice(virtualRows.start, virtualRows.end)
+    : paginatedProjects;
+  const firstRowIndex = isScrollLayout
+    ? virtualRows.start
+    : (currentPage - 1) * itemsPerPage;
+
+  // Shift-click ranges follow the table order across pages
+  const projectIds = useMemo(() => safeProjects.map((project) => project.id), [safeProjects]);
+  const selectedIdSet = useMemo(() => new Set(selection.selectedIds), [selection.selectedIds]);
+  // The header checkbox covers the current page, or every result when scrolling
+  const pageProjectIds = useMemo(
+    () => (isScrollLayout ? projectIds : paginatedProjects.map((project) => project.id)),
+    [isScrollLayout, projectIds, paginatedProjects]
+  );
+  const pageSelectedCount = pageProjectIds.filter((id) => selectedIdSet.has(id)).length;
+  const isPageSelected = pageProjectIds.length > 0 && pageSelectedCount === pageProjectIds.length;
+
   const handlePageChange = useCallback(
     (page: number) => {
-      setCurrentPage(Math.max(1, Math.min(page, totalPages)));
+      onPaginationChange({ page: Math.max(1, Math.min(page, totalPages)) });
       document
         .getElementById("projects-table")
         ?.scrollIntoView({ behavior: "smooth" });
     },
-    [totalPages]
+    [totalPages, onPaginationChange]
   );
 
   const handlePageSizeChange = useCallback((newSize: string) => {
-    const size = parseInt(newSize) || DEFAULT_PAGE_SIZE;
-    setItemsPerPage(size);
-    setCurrentPage(1); // Reset to first page when changing page size
-  }, []);
+    const size = parseInt(newSize) || DEFAULT_PAGINATION.pageSize;
+    // Reset to first page when changing page size
+    onPaginationChange({ page: 1, pageSize: size });
+  }, [onPaginationChange]);
+
+  const handleLayoutChange = useCallback((layout: string) => {
+    onPaginationChange({ page: 1, layout: layout as TableLayout });
+  }, [onPaginationChange]);
 
+  // Click sorts by a column alone; shift-click adds it as a tie-breaker
+  // (and cycles it desc -> asc -> off)
   const handleSort = useCallback(
-    (column: FilterOptions["sortBy"]) => {
+    (column: SortField, additive: boolean) => {
       if (!onFiltersChange) return;
-      const newOrder =
-        filters.sortBy === column && filters.sortOrder === "desc"
-          ? "asc"
-          : "desc";
-      onFiltersChange({ sortBy: column, sortOrder: newOrder });
-      setCurrentPage(1);
+      const flip = (order: SortOrder): SortOrder => (order === "desc" ? "asc" : "desc");
+
+      if (column === filters.sortBy) {
+        onFiltersChange({
+          sortOrder: flip(filters.sortOrder),
+          thenBy: additive ? filters.thenBy : [],
+        });
+      } else if (!additive) {
+        onFiltersChange({ sortBy: column, sortOrder: "desc", thenBy: [] });
+      } else {
+        const existing = filters.thenBy.find((key) => key.field === column);
+        onFiltersChange({
+          thenBy: !existing
+            ? [...filters.thenBy, { field: column, order: "desc" }]
+            : existing.order === "desc"
+              ? filters.thenBy.map((key) => (key.field === column ? { ...key, order: "asc" } : key))
+              : filters.thenBy.filter((key) => key.field !== column),
+        });
+      }
+      onPaginationChange({ page: 1 });
     },
-    [filters.sortBy, filters.sortOrder, onFiltersChange]
+    [filters.sortBy, filters.sortOrder, filters.thenBy, onFiltersChange, onPaginationChange]
   );
 
   const getSortIcon = useCallback(
-    (column: FilterOptions["sortBy"]) => {
-      if (filters.sortBy !== column) {
+    (column: SortField) => {
+      const sortKeys: SortKey[] = [
+        { field: filters.sortBy, order: filters.sortOrder },
+        ...filters.thenBy.filter((key) => key.field !== filters.sortBy),
+      ];
+      const position = sortKeys.findIndex((key) => key.field === column);
+      if (position < 0) {
         return <ChevronsUpDown className="h-3 w-3 ml-1 opacity-50" />;
       }
-      return filters.sortOrder === "asc" ? (
-        <ChevronUp className="h-3 w-3 ml-1" />
-      ) : (
-        <ChevronDown className="h-3 w-3 ml-1" />
+      return (
+        <span className="inline-flex items-center">
+          {sortKeys[position].order === "asc" ? (
+            <ChevronUp className="h-3 w-3 ml-1" />
+          ) : (
+            <ChevronDown className="h-3 w-3 ml-1" />
+          )}
+          {/* Priority, only when sorting by more than one column */}
+          {sortKeys.length > 1 && (
+            <span className="text-[10px] font-medium text-muted-foreground">{position + 1}</span>
+          )}
+        </span>
       );
     },
-    [filters.sortBy, filters.sortOrder]
+    [filters.sortBy, filters.sortOrder, filters.thenBy]
   );
 
-  // Reset to first page when projects change, but ensure page is valid
+  // Reset to first page when projects change, but ensure page is valid.
+  // Skipped while empty so a linked ?page= survives the initial load.
   useEffect(() => {
-    if (currentPage > totalPages && totalPages > 0) {
-      setCurrentPage(1);
+    if (!isLoading && projectCount > 0 && currentPage > totalPages) {
+      onPaginationChange({ page: 1 });
     }
-  }, [projectCount, totalPages, currentPage]);
+  }, [isLoading, projectCount, totalPages, currentPage, onPaginationChange]);
+
+  // Trending mode ranks by engagement gained over a window
+  const isTrending = filters.sortBy === "momentum";
+
+  // Columns in the user's saved order, widths and visibility
+  const { layout: columnLayout, toggleColumn, moveColumn, setColumnWidth, resetLayout } = useColumnLayout();
+  // Width of the column being dragged, before it is saved
+  const [resizing, setResizing] = useState<{ id: ColumnId; width: number } | null>(null);
+  const visibleColumns = useMemo(
+    () =>
+      columnLayout.order
+        .map((id) => COLUMNS_BY_ID[id])
+        .filter((column) => !columnLayout.hidden.includes(column.id) && (!column.trendingOnly || isTrending)),
+    [columnLayout, isTrending]
+  );
+  const handleMoveColumn = useCallback(
+    (id: ColumnId, direction: -1 | 1) => moveColumn(id, direction, visibleColumns.map((column) => column.id)),
+    [moveColumn, visibleColumns]
+  );
+  const getWidth = (id: ColumnId) =>
+    resizing?.id === id ? clampColumnWidth(id, resizing.width) : getColumnWidth(columnLayout, id);
+  const tableWidth = visibleColumns.reduce((total, column) => total + getWidth(column.id), 0);
+  const columnCount = visibleColumns.length;
+
+  const handleToggleTrending = useCallback(() => {
+    onFiltersChange(
+      isTrending
+        ? { sortBy: "likes", sortOrder: "desc" }
+        : { sortBy: "momentum", sortOrder: "desc" }
+    );
+    onPaginationChange({ page: 1 });
+  }, [isTrending, onFiltersChange, onPaginationChange]);
+
+  const handleApplyView = useCallback((view: SavedView) => {
+    onFiltersChange(view.filters);
+    onPaginationChange({ page: 1, pageSize: view.pageSize });
+  }, [onFiltersChange, onPaginationChange]);
 
   // Determine if we have an empty state
   const isEmpty = projectCount === 0;
   const hasSearchOrFilters = Boolean(searchValue?.trim() || hasActiveFilters);
 
+  const buildProjectUrl = useCallback((slug: string | null) => {
+    const params = new URLSearchParams(window.location.search);
+    if (slug) {
+      params.set("project", slug);
+    } else {
+      params.delete("project");
+    }
+    const query = params.toString();
+    return query ? `?${query}` : window.location.pathname;
+  }, []);
+
+  const handleProjectClick = useCallback((project: Project) => {
+    router.push(buildProjectUrl(project.slug), { scroll: false });
+    pushedModalRef.current = true;
+    onProjectClick?.(project);
+  }, [router, buildProjectUrl, onProjectClick]);
+
+  const handleCloseProject = useCallback(() => {
+    if (pushedModalRef.current) {
+      pushedModalRef.current = false;
+      router.back();
+    } else {
+      // Arrived via a shared link - drop the param without leaving the page
+      router.replace(buildProjectUrl(null), { scroll: false });
+    }
+  }, [router, buildProjectUrl]);
+
   const toggleDescription = useCallback((projectId: number) => {
     setExpandedDescriptions(prev => {
       const newSet = new Set(prev);
@@ -243,14 +487,46 @@ export function ProjectsTable({
           key="search-input" // Stable key to prevent re-mounting
           value={searchValue || ""} // Ensure value is never undefined
           onChange={onSearchChange}
-          placeholder="Search projects and descriptions..."
+          placeholder='Search, or try track:DeFi likes:>20 -"gaming"'
           isSearching={isSearching}
+          errors={searchErrors.map((error) => error.message)}
           className="w-full"
         />
       </div>
 
       {/* Right Side: Filters and Page Size Selector */}
       <div className="flex items-center gap-3 shrink-0 ml-auto">
+        {/* Trending Mode */}
+        <div className="flex items-center gap-2">
+          <Button
+            variant={isTrending ? "default" : "outline"}
+            onClick={handleToggleTrending}
+            size="sm"
+          >
+            <TrendingUp className="mr-2 h-4 w-4" />
+            Trending
+          </Button>
+          {isTrending && (
+            <Select
+              value={filters.momentumWindow}
+              onValueChange={(value) =>
+                onFiltersChange({ momentumWindow: value as MomentumWindow })
+              }
+            >
+              <SelectTrigger className="w-20 h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.keys(MOMENTUM_WINDOWS).map((window) => (
+                  <SelectItem key={window} value={window}>
+                    {window}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+
         {/* Filters Section */}
         <div className="flex items-center gap-2">
           {hasActiveFilters && (
@@ -269,10 +545,35 @@ export function ProjectsTable({
               <span className="ml-2 bg-white/80 text-background rounded-full w-2 h-2" />
             )}
           </Button>
+          <SavedViewsMenu
+            filters={filters}
+            pageSize={itemsPerPage}
+            onApplyView={handleApplyView}
+          />
+          <AnnotationsMenu />
+          <ColumnChooser
+            layout={columnLayout}
+            onToggleColumn={toggleColumn}
+            onMoveColumn={handleMoveColumn}
+            onReset={resetLayout}
+          />
         </div>
 
-        {/* Page Size Selector - Only show when we have data */}
+        {/* Layout and Page Size Selectors - Only show when we have data */}
         {!isEmpty && (
+          <div className="flex items-center gap-2">
+            <Select value={pagination.layout} onValueChange={handleLayoutChange}>
+              <SelectTrigger className="w-24 h-8 text-xs" title="Pages, or one scrolling list of every result">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="pages">Pages</SelectItem>
+                <SelectItem value="scroll">Scroll all</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        {!isEmpty && !isScrollLayout && (
           <div className="flex items-center gap-2">
             <span className="text-xs text-muted-foreground">Show:</span>
             <Select
@@ -298,7 +599,7 @@ export function ProjectsTable({
 
   const renderEmptyState = () => (
     <TableRow>
-      <TableCell colSpan={9} className="text-center py-12">
+      <TableCell colSpan={columnCount} className="text-center py-12">
         <div className="flex flex-col items-center gap-3 text-muted-foreground">
           {hasSearchOrFilters ? (
             <>
@@ -345,31 +646,178 @@ export function ProjectsTable({
     </TableRow>
   );
 
-  const renderTableContent = () => {
-    if (isLoading) {
-      return <TableLoadingSkeleton />;
+  const renderDelta = (delta: number | undefined) => {
+    if (!delta) return null;
+    return (
+      <span
+        className={`text-[10px] font-semibold ${delta > 0 ? "text-green-400" : "text-muted-foreground"}`}
+        title="Since you last marked changes as seen"
+      >
+        {delta > 0 ? "+" : ""}{formatNumber(delta)}
+      </span>
+    );
+  };
+
+  const renderSubmittedAt = (submittedAt: string) => {
+    const date = new Date(submittedAt);
+    if (!submittedAt || isNaN(date.getTime())) {
+      return <span className="text-muted-foreground">—</span>;
     }
-    
-    if (isEmpty) {
-      return renderEmptyState();
+    return (
+      <div className="text-xs leading-tight" title={date.toLocaleString()}>
+        <div className="font-medium">
+          {date.toLocaleDateString(undefined, { month: "short", day: "numeric" })}
+        </div>
+        <div className="text-muted-foreground">
+          {date.toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" })}
+        </div>
+      </div>
+    );
+  };
+
+  const renderMomentum = (entry: ProjectMomentum | undefined) => {
+    if (!entry) {
+      return (
+        <span className="text-xs text-muted-foreground">
+          {isMomentumLoading ? "…" : "—"}
+        </span>
+      );
     }
 
-    return paginatedProjects.map((project, index) => {
-      const globalIndex = (currentPage - 1) * itemsPerPage + index + 1;
-      const teamSize = project.teamMembers?.length || 1;
+    return (
+      <div
+        className="flex flex-col items-center gap-1"
+        title={`Over the last ${MOMENTUM_WINDOWS[filters.momentumWindow].label}`}
+      >
+        <div className="flex items-center gap-2 text-xs font-medium">
+          <span className={entry.likesGained > 0 ? "text-red-400" : "text-muted-foreground"}>
+            {entry.likesGained > 0 ? "+" : ""}{formatNumber(entry.likesGained)}
+          </span>
+          <span className={entry.commentsGained > 0 ? "text-blue-400" : "text-muted-foreground"}>
+            {entry.commentsGained > 0 ? "+" : ""}{formatNumber(entry.commentsGained)}
+          </span>
+        </div>
+        <Sparkline values={entry.likesSeries} className="text-red-400" />
+      </div>
+    );
+  };
 
-      return (
-        <TableRow
-          key={`${project.id}-${globalIndex}`}
-          className="hover:bg-muted/50 transition-colors h-20 border-gray-800"
-        >
+  const renderHeader = (column: ColumnDefinition) => {
+    const Icon = COLUMN_ICONS[column.id];
+    const isCentered = column.align === "center";
+    const sortKey = column.sortKey;
+
+    return (
+      <TableHead
+        key={column.id}
+        style={{ width: getWidth(column.id) }}
+        className={`relative text-sm py-2 ${isCentered ? "text-center" : ""}`}
+      >
+        {sortKey ? (
+          <button
+            className="w-full font-semibold hover:bg-gray-800/30 transition-all duration-200 rounded-sm p-1 group select-none"
+            onClick={(e) => handleSort(sortKey, e.shiftKey)}
+            title="Click to sort, Shift+click to add as a secondary sort"
+            disabled={isEmpty}
+          >
+            <div className={`flex items-center gap-1 ${isCentered ? "justify-center" : ""}`}>
+              {Icon && <Icon className="h-4 w-4 group-hover:scale-110 transition-transform" />}
+              {column.label}
+              <span className="group-hover:opacity-100 transition-opacity">
+                {getSortIcon(sortKey)}
+              </span>
+            </div>
+          </button>
+        ) : column.id === "select" ? (
+          <input
+            type="checkbox"
+            checked={isPageSelected}
+            ref={(input) => {
+              if (input) input.indeterminate = pageSelectedCount > 0 && !isPageSelected;
+            }}
+            onChange={() =>
+              isPageSelected ? selection.deselectAll(pageProjectIds) : selection.selectAll(pageProjectIds)
+            }
+            disabled={isEmpty}
+            className="h-4 w-4 cursor-pointer accent-hakata-purple disabled:cursor-not-allowed disabled:opacity-40"
+            aria-label={isScrollLayout ? "Select all results" : "Select all on this page"}
+            title={isScrollLayout ? "Select all results" : "Select all on this page"}
+          />
+        ) : (
+          <div className={`font-semibold ${isCentered ? "" : "text-left"}`}>{column.label}</div>
+        )}
+        <ColumnResizeHandle
+          width={getWidth(column.id)}
+          onResize={(width) => setResizing({ id: column.id, width })}
+          onResizeEnd={(width) => {
+            setResizing(null);
+            setColumnWidth(column.id, width);
+          }}
+        />
+      </TableHead>
+    );
+  };
+
+  const renderCell = (columnId: ColumnId, project: Project, row: RowContext) => {
+    const { globalIndex, index, teamSize, change, isNew, isEdited } = row;
+
+    switch (columnId) {
+      case "select":
+        return (
+          <TableCell className="text-center py-2">
+            <input
+              type="checkbox"
+              checked={selectedIdSet.has(project.id)}
+              onChange={(e) =>
+                selection.toggle(project.id, projectIds, (e.nativeEvent as MouseEvent).shiftKey)
+              }
+              className="h-4 w-4 cursor-pointer accent-hakata-purple"
+              aria-label={`Select ${project.name}`}
+              title="Shift+click to select a range"
+            />
+          </TableCell>
+        );
+      case "rank":
+        return (
           <TableCell className="font-medium text-muted-foreground text-xs">
             {globalIndex}
           </TableCell>
+        );
+      case "project":
+        return (
           <TableCell className="py-2">
             <div className="space-y-1">
               <div className="font-medium text-xs text-foreground">
-                {project.name || "Unnamed Project"}
+                {BookmarkButton && (
+                  <BookmarkButton
+                    projectId={project.id}
+                    size="icon"
+                    variant="ghost"
+                    className="-ml-1.5 mr-0.5 align-middle"
+                  />
+                )}
+                <button
+                  onClick={() => handleProjectClick(project)}
+                  className="text-left hover:underline"
+                >
+                  <Highlight text={project.name || "Unnamed Project"} highlight={highlight} />
+                </button>
+                {isNew && (
+                  <span className="ml-1.5 align-middle rounded-full bg-green-500/20 px-1.5 py-0.5 text-[10px] font-semibold text-green-400">
+                    NEW
+                  </span>
+                )}
+                {isEdited && (
+                  <span
+                    className="ml-1.5 align-middle rounded-full bg-amber-500/20 px-1.5 py-0.5 text-[10px] font-semibold text-amber-400"
+                    title={[
+                      change?.tracksChanged && "Tracks changed",
+                      change?.descriptionChanged && "Description changed",
+                    ].filter(Boolean).join(", ")}
+                  >
+                    edited
+                  </span>
+                )}
               </div>
               {project.twitterHandle && (
                 <a
@@ -383,20 +831,49 @@ export function ProjectsTable({
               )}
             </div>
           </TableCell>
+        );
+      case "tags": {
+        const tags = getTags(project.id);
+        const note = getNote(project.id);
+        return (
+          <TableCell className="py-2">
+            {tags.length > 0 || note ? (
+              <div className="flex flex-wrap items-center gap-1">
+                {note && (
+                  <StickyNote className="h-3 w-3 text-muted-foreground" aria-label="Has note">
+                    <title>{truncate(note, 200)}</title>
+                  </StickyNote>
+                )}
+                {tags.map((tag) => (
+                  <TagChip key={tag.id} tag={tag} />
+                ))}
+              </div>
+            ) : (
+              <span className="text-xs text-muted-foreground">—</span>
+            )}
+          </TableCell>
+        );
+      }
+      case "description":
+        return (
           <TableCell className="py-4 max-w-[350px]">
             <div 
               className="text-xs text-gray-300 leading-relaxed cursor-pointer hover:text-gray-200 transition-colors"
               onClick={() => toggleDescription(project.id)}
             >
               {project.description?.trim() ? (
-                expandedDescriptions.has(project.id) ? 
-                  project.description : 
-                  truncate(project.description, 140)
+                <Highlight
+                  text={expandedDescriptions.has(project.id) ? project.description : truncate(project.description, 140)}
+                  highlight={highlight}
+                />
               ) : (
                 <span className="text-gray-500">No description</span>
               )}
             </div>
           </TableCell>
+        );
+      case "tracks":
+        return (
           <TableCell className="py-2">
             <div className="text-xs text-center leading-relaxed max-w-[120px]">
               {project.tracks?.length > 0 ? (
@@ -415,9 +892,15 @@ export function ProjectsTable({
               )}
             </div>
           </TableCell>
+        );
+      case "country":
+        return (
           <TableCell className="text-center py-2">
             <span className="text-xs">{project.country?.trim() || "—"}</span>
           </TableCell>
+        );
+      case "likes":
+        return (
           <TableCell className="text-center py-2">
             <div className="flex items-center justify-center gap-1">
               <Heart className="h-3 w-3 text-red-500" />
@@ -425,7 +908,11 @@ export function ProjectsTable({
                 {formatNumber(project.likes || 0)}
               </span>
             </div>
+            {renderDelta(change?.likesDelta)}
           </TableCell>
+        );
+      case "comments":
+        return (
           <TableCell className="text-center py-2">
             <div className="flex items-center justify-center gap-1">
               <MessageSquare className="h-3 w-3 text-blue-500" />
@@ -433,7 +920,17 @@ export function ProjectsTable({
                 {formatNumber(project.comments || 0)}
               </span>
             </div>
+            {renderDelta(change?.commentsDelta)}
+          </TableCell>
+        );
+      case "momentum":
+        return (
+          <TableCell className="text-center py-2">
+            {renderMomentum(momentum?.get(project.id))}
           </TableCell>
+        );
+      case "team":
+        return (
           <TableCell className="text-center py-4 relative">
             <div 
               className="flex items-center justify-center gap-1 cursor-pointer hover:bg-gray-800/30 rounded px-3 py-1 transition-colors min-w-[50px]"
@@ -449,7 +946,7 @@ export function ProjectsTable({
                 ref={popoverRef}
                 className={`absolute left-1/2 transform -translate-x-1/2 z-50 bg-gray-900 border border-gray-700 rounded-md shadow-lg p-3 min-w-[220px] ${
                   // Show above if it's one of the last few rows
-                  index >= paginatedProjects.length - 3 
+                  index >= visibleProjects.length - 3 
                     ? 'bottom-full mb-1' 
                     : 'top-full mt-1'
                 }`}
@@ -515,6 +1012,81 @@ export function ProjectsTable({
               </div>
             )}
           </TableCell>
+        );
+      case "submitted":
+        return (
+          <TableCell className="text-center py-2">
+            {renderSubmittedAt(project.submittedAt)}
+          </TableCell>
+        );
+      case "university":
+        return (
+          <TableCell className="py-2">
+            {project.universityName?.trim() ? (
+              <span className="text-xs">{project.universityName}</span>
+            ) : (
+              <span className="text-xs text-muted-foreground">
+                {project.isUniversityProject ? "University" : "—"}
+              </span>
+            )}
+          </TableCell>
+        );
+      case "twitter":
+        return (
+          <TableCell className="py-2">
+            {project.twitterHandle ? (
+              <a
+                href={`https://x.com/${project.twitterHandle}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-xs text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 hover:underline"
+              >
+                @{project.twitterHandle}
+              </a>
+            ) : (
+              <span className="text-xs text-muted-foreground">—</span>
+            )}
+          </TableCell>
+        );
+      case "engagement":
+        return (
+          <TableCell className="text-center py-2">
+            <span className="font-medium text-xs" title="Comments per like">
+              {project.likes ? getEngagementRatio(project).toFixed(2) : "—"}
+            </span>
+          </TableCell>
+        );
+      case "score": {
+        const score = weightedScores.get(project.id) ?? null;
+        const scoredCount = countScored(criteria, getScores(project.id));
+        return (
+          <TableCell className="text-center py-2">
+            <span
+              className={`font-medium text-xs ${score !== null && scoredCount < criteria.length ? "text-muted-foreground" : ""}`}
+              title={score !== null ? `Weighted rubric score, ${scoredCount} of ${criteria.length} criteria scored` : "Not scored"}
+            >
+              {formatScore(score)}
+            </span>
+          </TableCell>
+        );
+      }
+      case "members":
+        return (
+          <TableCell className="py-2">
+            {project.teamMembers?.length > 0 ? (
+              <div className="text-xs leading-relaxed line-clamp-3">
+                {project.teamMembers
+                  .map((member) => member.displayName || member.username)
+                  .filter(Boolean)
+                  .join(", ")}
+              </div>
+            ) : (
+              <span className="text-xs text-muted-foreground">—</span>
+            )}
+          </TableCell>
+        );
+      case "links":
+        return (
           <TableCell className="py-2">
             <div className="flex items-center justify-center gap-1">
               {/* Repository Link */}
@@ -569,7 +1141,7 @@ export function ProjectsTable({
               {/* Arena Project Link - Official Colosseum Logo */}
               {project.slug && (
                 <a
-                  href={`https://arena.colosseum.org/projects/explore/${project.slug}`}
+                  href={getArenaUrl(project)}
                   target="_blank"
                   rel="noopener noreferrer"
                   className="inline-flex items-center justify-center h-7 w-7 p-0 hover:bg-gray-700 rounded-md transition-all duration-200 hover:scale-105 active:scale-95 group"
@@ -583,101 +1155,88 @@ export function ProjectsTable({
               )}
             </div>
           </TableCell>
+        );
+    }
+  };
+
+  const renderTableContent = () => {
+    if (isLoading) {
+      return <TableLoadingSkeleton columns={visibleColumns} />;
+    }
+    
+    if (isEmpty) {
+      return renderEmptyState();
+    }
+
+    const rows = visibleProjects.map((project, index) => {
+      const globalIndex = firstRowIndex + index + 1;
+      const teamSize = project.teamMembers?.length || 1;
+      const change = changes?.changesById.get(project.id);
+      const isNew = changes?.addedIds.has(project.id) ?? false;
+      const isEdited = Boolean(change?.tracksChanged || change?.descriptionChanged);
+
+      return (
+        <TableRow
+          key={`${project.id}-${globalIndex}`}
+          data-virtual-key={project.id}
+          className="hover:bg-muted/50 transition-colors h-20 border-gray-800"
+        >
+          {visibleColumns.map((column) => (
+            <Fragment key={column.id}>
+              {renderCell(column.id, project, { globalIndex, index, teamSize, change, isNew, isEdited })}
+            </Fragment>
+          ))}
         </TableRow>
       );
     });
+
+    if (!isScrollLayout) {
+      return rows;
+    }
+
+    // Spacers stand in for the rows outside the window
+    return (
+      <>
+        {virtualRows.paddingTop > 0 && (
+          <tr aria-hidden="true" style={{ height: virtualRows.paddingTop }} />
+        )}
+        {rows}
+        {virtualRows.paddingBottom > 0 && (
+          <tr aria-hidden="true" style={{ height: virtualRows.paddingBottom }} />
+        )}
+      </>
+    );
   };
 
   return (
     <Card id="projects-table">
       <CardHeader className="pb-2">{renderSearchHeader()}</CardHeader>
       <CardContent className="space-y-3">
+        {selectedProjects.length > 0 && (
+          <BulkActionsBar
+            selectedProjects={selectedProjects}
+            matchingIds={projectIds}
+            onSelectAllMatching={() => selection.selectAll(projectIds)}
+            onClear={selection.clear}
+          />
+        )}
         <div className="rounded-md border overflow-x-auto">
-          <Table className="table-fixed w-full">
-            <TableHeader>
+          <Table
+            className="table-fixed"
+            style={{ width: tableWidth, minWidth: "100%" }}
+            containerRef={virtualRows.containerRef}
+            containerClassName={isScrollLayout ? "max-h-[75vh] [overflow-anchor:none]" : undefined}
+          >
+            <TableHeader className={isScrollLayout ? "sticky top-0 z-10 bg-background" : undefined}>
               <TableRow className="h-12 border-b-2">
-                <TableHead className="w-[50px] text-sm py-2 font-semibold">
-                  #
-                </TableHead>
-                <TableHead className="w-[180px] text-sm py-2">
-                  <div className="w-full text-left font-semibold">Project</div>
-                </TableHead>
-                <TableHead className="w-[350px] text-sm py-2 font-semibold">
-                  Description
-                </TableHead>
-                <TableHead className="w-[120px] text-center text-sm py-2 font-semibold">
-                  Tracks
-                </TableHead>
-                <TableHead className="w-[100px] text-center text-sm py-2">
-                  <button
-                    className="w-full font-semibold hover:bg-gray-800/30 transition-all duration-200 rounded-sm p-1 group"
-                    onClick={() => handleSort("country")}
-                    disabled={isEmpty}
-                  >
-                    <div className="flex items-center justify-center gap-1">
-                      <MapPin className="h-4 w-4 group-hover:scale-110 transition-transform" />
-                      Country
-                      <span className="group-hover:opacity-100 transition-opacity">
-                        {getSortIcon("country")}
-                      </span>
-                    </div>
-                  </button>
-                </TableHead>
-                <TableHead className="w-[80px] text-center text-sm py-2">
-                  <button
-                    className="w-full font-semibold hover:bg-gray-800/30 transition-all duration-200 rounded-sm p-1 group"
-                    onClick={() => handleSort("likes")}
-                    disabled={isEmpty}
-                  >
-                    <div className="flex items-center justify-center gap-1">
-                      <Heart className="h-4 w-4 group-hover:scale-110 transition-transform" />
-                      Likes
-                      <span className="group-hover:opacity-100 transition-opacity">
-                        {getSortIcon("likes")}
-                      </span>
-                    </div>
-                  </button>
-                </TableHead>
-                <TableHead className="w-[90px] text-center text-sm py-2">
-                  <button
-                    className="w-full font-semibold hover:bg-gray-800/30 transition-all duration-200 rounded-sm p-1 group"
-                    onClick={() => handleSort("comments")}
-                    disabled={isEmpty}
-                  >
-                    <div className="flex items-center justify-center gap-1">
-                      <MessageSquare className="h-4 w-4 group-hover:scale-110 transition-transform" />
-                      Comments
-                      <span className="group-hover:opacity-100 transition-opacity">
-                        {getSortIcon("comments")}
-                      </span>
-                    </div>
-                  </button>
-                </TableHead>
-                <TableHead className="w-[80px] text-center text-sm py-2">
-                  <button
-                    className="w-full font-semibold hover:bg-gray-800/30 transition-all duration-200 rounded-sm p-1 group"
-                    onClick={() => handleSort("teamSize")}
-                    disabled={isEmpty}
-                  >
-                    <div className="flex items-center justify-center gap-1">
-                      <Users className="h-4 w-4 group-hover:scale-110 transition-transform" />
-                      Team
-                      <span className="group-hover:opacity-100 transition-opacity">
-                        {getSortIcon("teamSize")}
-                      </span>
-                    </div>
-                  </button>
-                </TableHead>
-                <TableHead className="w-[100px] text-center text-sm py-2 font-semibold">
-                  Links
-                </TableHead>
+                {visibleColumns.map((column) => renderHeader(column))}
               </TableRow>
             </TableHeader>
             <TableBody>{renderTableContent()}</TableBody>
           </Table>
         </div>
 
-        {!isEmpty && totalPages > 1 && (
+        {!isEmpty && !isScrollLayout && totalPages > 1 && (
           <div className="pt-2">
             <Pagination
               currentPage={currentPage}
@@ -695,7 +1254,7 @@ export function ProjectsTable({
         <ProjectDescriptionModal
           project={selectedProject}
           isOpen={!!selectedProject}
-          onClose={() => setSelectedProject(null)}
+          onClose={handleCloseProject}
         />
       )}
     </Card>
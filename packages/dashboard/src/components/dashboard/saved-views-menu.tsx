@@ -0,0 +1,169 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { FilterOptions } from '@/types/project';
+import { SavedView } from '@/types/saved-view';
+import { useSavedViews } from '@/hooks/use-saved-views';
+import { parseSavedViewsFile, serializeSavedViews } from '@/lib/saved-views';
+import { downloadFile } from '@/lib/api';
+import { Bookmark, ChevronDown, Download, Upload, X, AlertCircle } from 'lucide-react';
+
+interface SavedViewsMenuProps {
+  filters: FilterOptions;
+  pageSize: number;
+  onApplyView: (view: SavedView) => void;
+}
+
+export function SavedViewsMenu({ filters, pageSize, onApplyView }: SavedViewsMenuProps) {
+  const { views, saveView, deleteView, importViews } = useSavedViews();
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+      return () => document.removeEventListener('mousedown', handleClickOutside);
+    }
+  }, [isOpen]);
+
+  const handleSave = () => {
+    if (!name.trim()) return;
+    saveView(name, filters, pageSize);
+    setName('');
+    setError(null);
+  };
+
+  const handleApply = (view: SavedView) => {
+    onApplyView(view);
+    setIsOpen(false);
+  };
+
+  const handleExport = () => {
+    downloadFile(serializeSavedViews(views), 'colosseum_saved_views.json', 'application/json');
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      importViews(parseSavedViewsFile(await file.text()));
+      setError(null);
+    } catch (error) {
+      console.error('Failed to import saved views:', error);
+      setError(error instanceof Error ? error.message : 'Unable to import views');
+    }
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <Button variant="outline" size="sm" onClick={() => setIsOpen(!isOpen)}>
+        <Bookmark className="mr-2 h-4 w-4" />
+        Views
+        <ChevronDown className="ml-1 h-3 w-3 opacity-50" />
+      </Button>
+
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-1 w-72 bg-popover border rounded-md shadow-lg z-50">
+          {/* Saved views */}
+          <div className="max-h-60 overflow-y-auto py-1">
+            {views.length === 0 ? (
+              <p className="px-3 py-2 text-xs text-muted-foreground">
+                No saved views yet. Save the current filters below.
+              </p>
+            ) : (
+              views.map((view) => (
+                <div key={view.id} className="flex items-center hover:bg-accent transition-colors">
+                  <button
+                    onClick={() => handleApply(view)}
+                    className="flex-1 min-w-0 text-left px-3 py-2 text-sm truncate"
+                    title={`Apply "${view.name}"`}
+                  >
+                    {view.name}
+                  </button>
+                  <button
+                    onClick={() => deleteView(view.id)}
+                    className="shrink-0 px-2 py-2 text-muted-foreground hover:text-destructive"
+                    title={`Delete "${view.name}"`}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+              ))
+            )}
+          </div>
+
+          {/* Save current */}
+          <div className="flex gap-2 p-2 border-t">
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  handleSave();
+                }
+              }}
+              placeholder="Name the current view"
+              className="h-8 text-xs"
+            />
+            <Button size="sm" onClick={handleSave} disabled={!name.trim()} className="h-8 shrink-0">
+              Save
+            </Button>
+          </div>
+
+          {/* Share */}
+          <div className="flex gap-2 p-2 border-t">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+              className="flex-1 h-8 text-xs"
+            >
+              <Upload className="mr-1 h-3 w-3" />
+              Import
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleExport}
+              disabled={views.length === 0}
+              className="flex-1 h-8 text-xs"
+            >
+              <Download className="mr-1 h-3 w-3" />
+              Export
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImport(file);
+                // Allow picking the same file again
+                e.target.value = '';
+              }}
+            />
+          </div>
+
+          {error && (
+            <div className="flex items-center gap-1 px-3 pb-2 text-xs text-destructive">
+              <AlertCircle className="h-3 w-3 shrink-0" />
+              {error}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
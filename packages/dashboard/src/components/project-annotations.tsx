@@ -0,0 +1,81 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { TagChip, TagPicker } from '@/components/tags';
+import { useAnnotations } from '@/hooks/use-annotations';
+import { cn } from '@/lib/utils';
+import { StickyNote } from 'lucide-react';
+
+const NOTE_SAVE_DELAY_MS = 500;
+
+interface ProjectAnnotationsProps {
+  projectId: number;
+  className?: string;
+}
+
+/**
+ * Private note and tags editor for one project. Only stored in this browser.
+ */
+export function ProjectAnnotations({ projectId, className }: ProjectAnnotationsProps) {
+  const { getNote, getTags, setNote, toggleTag } = useAnnotations();
+  const savedNote = getNote(projectId);
+  const tags = getTags(projectId);
+  const [draft, setDraft] = useState(savedNote);
+  const isEditingRef = useRef(false);
+
+  // Pick up changes made elsewhere (another tab, an import) unless mid-edit
+  useEffect(() => {
+    if (!isEditingRef.current) setDraft(savedNote);
+  }, [savedNote]);
+
+  // Save shortly after typing stops
+  useEffect(() => {
+    if (draft === savedNote) {
+      isEditingRef.current = false;
+      return;
+    }
+    const timeout = setTimeout(() => setNote(projectId, draft), NOTE_SAVE_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [draft, savedNote, projectId, setNote]);
+
+  // Don't lose the last keystrokes when the modal closes
+  const latestRef = useRef({ projectId, draft, setNote });
+  latestRef.current = { projectId, draft, setNote };
+  useEffect(() => () => {
+    const latest = latestRef.current;
+    latest.setNote(latest.projectId, latest.draft);
+  }, []);
+
+  return (
+    <div className={cn('space-y-3 rounded-xl border border-muted-foreground/10 bg-muted/20 p-4', className)}>
+      <div className="flex items-center gap-2">
+        <StickyNote className="h-4 w-4 text-muted-foreground" />
+        <h3 className="text-sm font-semibold">Notes &amp; Tags</h3>
+        <span className="text-xs text-muted-foreground">Private to this browser</span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1.5">
+        {tags.map(tag => (
+          <TagChip key={tag.id} tag={tag} onRemove={() => toggleTag(projectId, tag.id)} />
+        ))}
+        <TagPicker
+          selectedTagIds={tags.map(tag => tag.id)}
+          onSelect={tag => toggleTag(projectId, tag.id)}
+          label={tags.length > 0 ? 'Edit tags' : 'Add tag'}
+        />
+      </div>
+
+      <textarea
+        value={draft}
+        onChange={(e) => {
+          isEditingRef.current = true;
+          setDraft(e.target.value);
+        }}
+        onBlur={() => setNote(projectId, draft)}
+        placeholder="Add a private note..."
+        rows={3}
+        className="w-full resize-y rounded-md border border-input bg-background px-3 py-2 text-sm shadow-sm placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+      />
+    </div>
+  );
+}
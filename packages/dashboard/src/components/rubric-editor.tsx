@@ -0,0 +1,122 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { RubricCriterion } from '@/types/rubric';
+import { useScoring } from '@/hooks/use-scoring';
+import { DEFAULT_CRITERIA, MAX_CRITERIA, MAX_WEIGHT, clampWeight, createCriterion } from '@/lib/rubric';
+import { Plus, RotateCcw, X } from 'lucide-react';
+
+/**
+ * Edits the rubric as a draft; nothing changes until it's saved, since
+ * removing a criterion drops its scores
+ */
+export function RubricEditor() {
+  const { criteria, updateCriteria } = useScoring();
+  const [draft, setDraft] = useState<RubricCriterion[]>(criteria);
+
+  // Pick up the stored rubric once it's restored (or changed in another tab)
+  useEffect(() => {
+    setDraft(criteria);
+  }, [criteria]);
+
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(criteria);
+  const hasEmptyName = draft.some(criterion => !criterion.name.trim());
+  const names = draft.map(criterion => criterion.name.trim().toLowerCase());
+  const hasDuplicateName = new Set(names).size < names.length;
+  const totalWeight = draft.reduce((sum, criterion) => sum + criterion.weight, 0);
+
+  const updateDraft = (id: string, update: Partial<RubricCriterion>) => {
+    setDraft(prev => prev.map(criterion => criterion.id === id ? { ...criterion, ...update } : criterion));
+  };
+
+  const handleSave = () => {
+    const removed = criteria.filter(criterion => !draft.some(other => other.id === criterion.id));
+    if (
+      removed.length > 0 &&
+      !window.confirm(`Removing ${removed.map(criterion => criterion.name).join(', ')} deletes ${removed.length === 1 ? 'its' : 'their'} scores for every reviewer. Continue?`)
+    ) {
+      return;
+    }
+    updateCriteria(draft);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-[1fr_2fr_5rem_auto] gap-2 text-xs font-medium text-muted-foreground">
+        <span>Criterion</span>
+        <span>Description</span>
+        <span>Weight</span>
+        <span className="w-8" />
+      </div>
+
+      {draft.map((criterion) => (
+        <div key={criterion.id} className="grid grid-cols-[1fr_2fr_5rem_auto] items-center gap-2">
+          <Input
+            value={criterion.name}
+            onChange={(e) => updateDraft(criterion.id, { name: e.target.value })}
+            placeholder="Name"
+            className="h-8 text-sm"
+          />
+          <Input
+            value={criterion.description}
+            onChange={(e) => updateDraft(criterion.id, { description: e.target.value })}
+            placeholder="What a 5 looks like"
+            className="h-8 text-sm"
+          />
+          <Input
+            type="number"
+            min={0}
+            max={MAX_WEIGHT}
+            step={0.5}
+            value={criterion.weight}
+            onChange={(e) => updateDraft(criterion.id, { weight: clampWeight(e.target.valueAsNumber) })}
+            className="h-8 text-sm"
+            title={totalWeight > 0 ? `${Math.round((criterion.weight / totalWeight) * 100)}% of the score` : undefined}
+          />
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setDraft(prev => prev.filter(other => other.id !== criterion.id))}
+            disabled={draft.length <= 1}
+            className="h-8 w-8 p-0"
+            title={`Remove ${criterion.name || 'criterion'}`}
+          >
+            <X className="h-3 w-3" />
+          </Button>
+        </div>
+      ))}
+
+      <div className="flex flex-wrap items-center gap-2 pt-1">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setDraft(prev => [...prev, createCriterion('')])}
+          disabled={draft.length >= MAX_CRITERIA}
+        >
+          <Plus className="mr-1 h-3 w-3" />
+          Add criterion
+        </Button>
+        <Button variant="ghost" size="sm" onClick={() => setDraft(DEFAULT_CRITERIA)}>
+          <RotateCcw className="mr-1 h-3 w-3" />
+          Default rubric
+        </Button>
+        <div className="ml-auto flex items-center gap-2">
+          {hasEmptyName && <span className="text-xs text-destructive">Every criterion needs a name</span>}
+          {!hasEmptyName && hasDuplicateName && (
+            <span className="text-xs text-destructive">Criterion names must be unique</span>
+          )}
+          {isDirty && (
+            <Button variant="ghost" size="sm" onClick={() => setDraft(criteria)}>
+              Discard
+            </Button>
+          )}
+          <Button size="sm" onClick={handleSave} disabled={!isDirty || hasEmptyName || hasDuplicateName || totalWeight === 0}>
+            Save rubric
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
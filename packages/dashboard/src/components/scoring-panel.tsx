@@ -0,0 +1,78 @@
+'use client';
+
+import Link from 'next/link';
+import { useScoring } from '@/hooks/use-scoring';
+import { SCORE_VALUES, computeWeightedScore, countScored, formatScore } from '@/lib/rubric';
+import { cn } from '@/lib/utils';
+import { ClipboardCheck } from 'lucide-react';
+
+interface ScoringPanelProps {
+  projectId: number;
+  className?: string;
+}
+
+/**
+ * Scores one project on the rubric, as the local reviewer
+ */
+export function ScoringPanel({ projectId, className }: ScoringPanelProps) {
+  const { criteria, reviewer, getScores, setScore } = useScoring();
+  const scores = getScores(projectId);
+  const weightedScore = computeWeightedScore(criteria, scores);
+  const scoredCount = countScored(criteria, scores);
+
+  return (
+    <div className={cn('space-y-3 rounded-xl border border-muted-foreground/10 bg-muted/20 p-4', className)}>
+      <div className="flex items-center gap-2">
+        <ClipboardCheck className="h-4 w-4 text-muted-foreground" />
+        <h3 className="text-sm font-semibold">Score</h3>
+        <span className="text-xs text-muted-foreground">as {reviewer}</span>
+        <Link href="/leaderboard" className="ml-auto text-xs text-muted-foreground hover:text-foreground hover:underline">
+          Rubric &amp; leaderboard
+        </Link>
+      </div>
+
+      <div className="space-y-2">
+        {criteria.map((criterion) => {
+          const current = scores[criterion.id];
+          return (
+            <div key={criterion.id} className="flex flex-wrap items-center gap-2">
+              <div className="min-w-0 flex-1" title={criterion.description || undefined}>
+                <span className="text-sm">{criterion.name}</span>
+                <span className="ml-1.5 text-xs text-muted-foreground">×{criterion.weight}</span>
+              </div>
+              <div className="flex gap-1" role="radiogroup" aria-label={criterion.name}>
+                {SCORE_VALUES.map((value) => (
+                  <button
+                    key={value}
+                    role="radio"
+                    aria-checked={current === value}
+                    // Clicking the current score clears it
+                    onClick={() => setScore(projectId, criterion.id, current === value ? null : value)}
+                    className={cn(
+                      'h-7 w-7 rounded-md border text-xs font-medium transition-colors',
+                      current === value
+                        ? 'border-hakata-purple bg-hakata-purple text-white'
+                        : 'hover:bg-accent'
+                    )}
+                  >
+                    {value}
+                  </button>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex items-baseline gap-2 border-t pt-3">
+        <span className="text-sm text-muted-foreground">Weighted score</span>
+        <span className="text-lg font-bold">{formatScore(weightedScore)}</span>
+        {weightedScore !== null && scoredCount < criteria.length && (
+          <span className="text-xs text-muted-foreground">
+            ({scoredCount} of {criteria.length} criteria)
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ProjectTag } from '@/types/annotation';
+import { useAnnotations } from '@/hooks/use-annotations';
+import { TAG_COLORS } from '@/lib/annotations';
+import { cn } from '@/lib/utils';
+import { Check, Tag, X } from 'lucide-react';
+
+export function TagChip({ tag, onRemove, className }: {
+  tag: ProjectTag;
+  onRemove?: () => void;
+  className?: string;
+}) {
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-[10px] font-medium leading-tight',
+        TAG_COLORS[tag.color],
+        className
+      )}
+    >
+      {tag.name}
+      {onRemove && (
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onRemove();
+          }}
+          className="opacity-60 hover:opacity-100"
+          title={`Remove ${tag.name}`}
+        >
+          <X className="h-2.5 w-2.5" />
+        </button>
+      )}
+    </span>
+  );
+}
+
+interface TagPickerProps {
+  // Tags shown as checked
+  selectedTagIds?: string[];
+  onSelect: (tag: ProjectTag) => void;
+  label?: string;
+  className?: string;
+}
+
+/**
+ * Dropdown of the user's tags, with a field to create a new one
+ */
+export function TagPicker({ selectedTagIds = [], onSelect, label = 'Tag', className }: TagPickerProps) {
+  const { tags, createTag } = useAnnotations();
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState('');
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+      return () => document.removeEventListener('mousedown', handleClickOutside);
+    }
+  }, [isOpen]);
+
+  const handleCreate = () => {
+    const tag = createTag(name);
+    if (!tag) return;
+    onSelect(tag);
+    setName('');
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setIsOpen(!isOpen)}
+        className={cn('h-7 px-2 text-xs', className)}
+      >
+        <Tag className="mr-1 h-3 w-3" />
+        {label}
+      </Button>
+
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-1 w-56 bg-popover border rounded-md shadow-lg z-50">
+          <div className="max-h-52 overflow-y-auto py-1">
+            {tags.length === 0 ? (
+              <p className="px-3 py-2 text-xs text-muted-foreground">No tags yet. Create one below.</p>
+            ) : (
+              tags.map((tag) => (
+                <button
+                  key={tag.id}
+                  onClick={() => onSelect(tag)}
+                  className="flex w-full items-center gap-2 px-3 py-1.5 text-left hover:bg-accent transition-colors"
+                >
+                  <span className="flex h-3 w-3 shrink-0 items-center justify-center">
+                    {selectedTagIds.includes(tag.id) && <Check className="h-3 w-3" />}
+                  </span>
+                  <TagChip tag={tag} />
+                </button>
+              ))
+            )}
+          </div>
+          <div className="flex gap-2 p-2 border-t">
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  handleCreate();
+                }
+              }}
+              placeholder="New tag"
+              className="h-7 text-xs"
+            />
+            <Button size="sm" onClick={handleCreate} disabled={!name.trim()} className="h-7 shrink-0 text-xs">
+              Add
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+import { Fragment } from 'react';
+import { SearchHighlight } from '@/types/search-query';
+import { getHighlightRanges } from '@/lib/highlight';
+
+interface HighlightProps {
+  text: string;
+  highlight?: SearchHighlight | null;
+}
+
+/**
+ * Render text with the parts matching the current search marked
+ */
+export function Highlight({ text, highlight }: HighlightProps) {
+  const ranges = getHighlightRanges(text, highlight);
+  if (ranges.length === 0) return <>{text}</>;
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  ranges.forEach(([start, end], i) => {
+    if (start > cursor) {
+      parts.push(<Fragment key={`t${i}`}>{text.slice(cursor, start)}</Fragment>);
+    }
+    parts.push(
+      <mark key={`m${i}`} className="rounded-sm bg-amber-400/30 text-inherit">
+        {text.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  });
+  if (cursor < text.length) {
+    parts.push(<Fragment key="rest">{text.slice(cursor)}</Fragment>);
+  }
+
+  return <>{parts}</>;
+}
@@ -3,7 +3,7 @@
 import { useState, useRef, useEffect, useCallback } from 'react';
 import { Input } from './input';
 import { Button } from './button';
-import { Search, X, Loader2, Clock, TrendingUp } from 'lucide-react';
+import { Search, X, Loader2, Clock, TrendingUp, AlertCircle } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 interface SearchInputProps {
@@ -17,6 +17,8 @@ interface SearchInputProps {
   autoFocus?: boolean;
   recentSearches?: string[];
   onRecentSearchSelect?: (search: string) => void;
+  // Query syntax problems, shown under the input
+  errors?: string[];
 }
 
 export function SearchInput({
@@ -29,7 +31,8 @@ export function SearchInput({
   showClearButton = true,
   autoFocus = false,
   recentSearches = [],
-  onRecentSearchSelect
+  onRecentSearchSelect,
+  errors = []
 }: SearchInputProps) {
   const [isFocused, setIsFocused] = useState(false);
   const [showSuggestions, setShowSuggestions] = useState(false);
@@ -114,8 +117,10 @@ export function SearchInput({
             className={cn(
               "pl-10 pr-10 transition-all duration-200",
               isFocused && "ring-2 ring-blue-500/20",
-              value && "bg-blue-50/5"
+              value && "bg-blue-50/5",
+              errors.length > 0 && "border-destructive/60"
             )}
+            aria-invalid={errors.length > 0}
           />
           
           {value && showClearButton && (
@@ -131,6 +136,18 @@ export function SearchInput({
         </div>
       </div>
 
+      {/* Query Errors */}
+      {errors.length > 0 && !showSuggestions && (
+        <div className="absolute top-full left-0 right-0 mt-1 z-40 space-y-0.5" role="alert">
+          {errors.map((error, index) => (
+            <div key={index} className="flex items-center gap-1 text-xs text-destructive">
+              <AlertCircle className="h-3 w-3 shrink-0" />
+              <span className="truncate">{error}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Search Suggestions */}
       {showSuggestions && recentSearches.length > 0 && (
         <div
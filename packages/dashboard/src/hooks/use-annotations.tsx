@@ -0,0 +1,148 @@
+'use client';
+
+import { createContext, useContext, useCallback, useMemo, ReactNode } from 'react';
+import { Annotations, ProjectTag, TagColor } from '@/types/annotation';
+import { loadAnnotations, saveAnnotations, ANNOTATIONS_KEY } from '@/lib/storage';
+import { usePersistentState } from '@/hooks/use-persistent-state';
+import {
+  EMPTY_ANNOTATIONS,
+  createTag as buildTag,
+  findTagByName,
+  getProjectTags,
+  mergeAnnotations,
+  sanitizeTagName,
+  updateProjectAnnotation,
+} from '@/lib/annotations';
+
+interface AnnotationsContextType {
+  annotations: Annotations;
+  tags: ProjectTag[];
+  getNote: (projectId: number) => string;
+  getTags: (projectId: number) => ProjectTag[];
+  setNote: (projectId: number, note: string) => void;
+  toggleTag: (projectId: number, tagId: string) => void;
+  addTagToProjects: (tagId: string, projectIds: number[]) => void;
+  // Returns the existing tag when one already has this name
+  createTag: (name: string, color?: TagColor) => ProjectTag | null;
+  setTagColor: (tagId: string, color: TagColor) => void;
+  deleteTag: (tagId: string) => void;
+  importAnnotations: (imported: Annotations) => void;
+}
+
+const AnnotationsContext = createContext<AnnotationsContextType | null>(null);
+
+export function AnnotationsProvider({ children }: { children: ReactNode }) {
+  const [annotations, updateAnnotations] = usePersistentState<Annotations>(ANNOTATIONS_KEY, loadAnnotations, saveAnnotations, EMPTY_ANNOTATIONS);
+
+  const getNote = useCallback(
+    (projectId: number) => annotations.projects[projectId]?.note ?? '',
+    [annotations]
+  );
+
+  const getTags = useCallback(
+    (projectId: number) => getProjectTags(annotations, projectId),
+    [annotations]
+  );
+
+  const setNote = useCallback((projectId: number, note: string) => {
+    updateAnnotations(prev =>
+      (prev.projects[projectId]?.note ?? '') === note
+        ? prev
+        : updateProjectAnnotation(prev, projectId, () => ({ note }))
+    );
+  }, [updateAnnotations]);
+
+  const toggleTag = useCallback((projectId: number, tagId: string) => {
+    updateAnnotations(prev => updateProjectAnnotation(prev, projectId, annotation => ({
+      tagIds: annotation.tagIds.includes(tagId)
+        ? annotation.tagIds.filter(id => id !== tagId)
+        : [...annotation.tagIds, tagId],
+    })));
+  }, [updateAnnotations]);
+
+  const addTagToProjects = useCallback((tagId: string, projectIds: number[]) => {
+    updateAnnotations(prev => projectIds.reduce(
+      (next, projectId) => next.projects[projectId]?.tagIds.includes(tagId)
+        ? next
+        : updateProjectAnnotation(next, projectId, annotation => ({ tagIds: [...annotation.tagIds, tagId] })),
+      prev
+    ));
+  }, [updateAnnotations]);
+
+  const createTag = useCallback((name: string, color?: TagColor) => {
+    const cleanName = sanitizeTagName(name);
+    if (!cleanName) return null;
+
+    const existing = findTagByName(annotations.tags, cleanName);
+    if (existing) return existing;
+
+    const tag = buildTag(cleanName, annotations.tags, color);
+    updateAnnotations(prev => findTagByName(prev.tags, cleanName) ? prev : { ...prev, tags: [...prev.tags, tag] });
+    return tag;
+  }, [annotations.tags, updateAnnotations]);
+
+  const setTagColor = useCallback((tagId: string, color: TagColor) => {
+    updateAnnotations(prev => ({
+      ...prev,
+      tags: prev.tags.map(tag => tag.id === tagId ? { ...tag, color } : tag),
+    }));
+  }, [updateAnnotations]);
+
+  // Also removes the tag from every project
+  const deleteTag = useCallback((tagId: string) => {
+    updateAnnotations(prev => {
+      let next: Annotations = { ...prev, tags: prev.tags.filter(tag => tag.id !== tagId) };
+      for (const [key, annotation] of Object.entries(prev.projects)) {
+        if (annotation.tagIds.includes(tagId)) {
+          next = updateProjectAnnotation(next, Number(key), current => ({
+            tagIds: current.tagIds.filter(id => id !== tagId),
+          }));
+        }
+      }
+      return next;
+    });
+  }, [updateAnnotations]);
+
+  const importAnnotations = useCallback((imported: Annotations) => {
+    updateAnnotations(prev => mergeAnnotations(prev, imported));
+  }, [updateAnnotations]);
+
+  const value = useMemo(() => ({
+    annotations,
+    tags: annotations.tags,
+    getNote,
+    getTags,
+    setNote,
+    toggleTag,
+    addTagToProjects,
+    createTag,
+    setTagColor,
+    deleteTag,
+    importAnnotations,
+  }), [
+    annotations,
+    getNote,
+    getTags,
+    setNote,
+    toggleTag,
+    addTagToProjects,
+    createTag,
+    setTagColor,
+    deleteTag,
+    importAnnotations,
+  ]);
+
+  return (
+    <AnnotationsContext.Provider value={value}>
+      {children}
+    </AnnotationsContext.Provider>
+  );
+}
+
+export function useAnnotations() {
+  const context = useContext(AnnotationsContext);
+  if (!context) {
+    throw new Error('useAnnotations must be used within an AnnotationsProvider');
+  }
+  return context;
+}
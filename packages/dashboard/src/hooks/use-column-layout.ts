@@ -0,0 +1,49 @@
+'use client';
+
+import { useCallback } from 'react';
+import { loadColumnLayout, saveColumnLayout, COLUMN_LAYOUT_KEY } from '@/lib/storage';
+import { usePersistentState } from '@/hooks/use-persistent-state';
+import { ColumnId, ColumnLayout, COLUMNS_BY_ID, DEFAULT_COLUMN_LAYOUT, clampColumnWidth } from '@/lib/table-columns';
+import { moveAmongShown } from '@/lib/utils';
+
+export function useColumnLayout() {
+  const [layout, updateLayout] = usePersistentState<ColumnLayout>(COLUMN_LAYOUT_KEY, loadColumnLayout, saveColumnLayout, DEFAULT_COLUMN_LAYOUT);
+
+  const toggleColumn = useCallback((id: ColumnId) => {
+    if (COLUMNS_BY_ID[id].required) return;
+    updateLayout(prev => ({
+      ...prev,
+      hidden: prev.hidden.includes(id)
+        ? prev.hidden.filter(hiddenId => hiddenId !== id)
+        : [...prev.hidden, id],
+    }));
+  }, [updateLayout]);
+
+  /**
+   * Moves a column past its neighbour on screen (-1 = left, 1 = right).
+   * `visibleIds` are the columns the table shows, so hidden and trending-only
+   * columns in between are skipped; a hidden column just swaps with the next one.
+   */
+  const moveColumn = useCallback((id: ColumnId, direction: -1 | 1, visibleIds?: ColumnId[]) => {
+    updateLayout(prev => {
+      const isShown = (columnId: ColumnId) => visibleIds
+        ? visibleIds.includes(columnId)
+        : !prev.hidden.includes(columnId);
+      const order = moveAmongShown(prev.order, id, direction, isShown(id) ? isShown : () => true);
+      return order === prev.order ? prev : { ...prev, order };
+    });
+  }, [updateLayout]);
+
+  const setColumnWidth = useCallback((id: ColumnId, width: number) => {
+    updateLayout(prev => ({
+      ...prev,
+      widths: { ...prev.widths, [id]: clampColumnWidth(id, width) },
+    }));
+  }, [updateLayout]);
+
+  const resetLayout = useCallback(() => {
+    updateLayout(() => DEFAULT_COLUMN_LAYOUT);
+  }, [updateLayout]);
+
+  return { layout, toggleColumn, moveColumn, setColumnWidth, resetLayout };
+}
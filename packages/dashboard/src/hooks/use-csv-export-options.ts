@@ -0,0 +1,53 @@
+'use client';
+
+import { useCallback } from 'react';
+import { loadCsvExportOptions, saveCsvExportOptions, CSV_EXPORT_KEY } from '@/lib/storage';
+import { usePersistentState } from '@/hooks/use-persistent-state';
+import { CsvColumnId, CsvExportOptions, DEFAULT_CSV_EXPORT_OPTIONS } from '@/lib/csv-export';
+import { CsvDelimiter } from '@/lib/csv';
+import { moveAmongShown } from '@/lib/utils';
+
+export function useCsvExportOptions() {
+  const [options, updateOptions] = usePersistentState<CsvExportOptions>(CSV_EXPORT_KEY, loadCsvExportOptions, saveCsvExportOptions, DEFAULT_CSV_EXPORT_OPTIONS);
+
+  const toggleColumn = useCallback((id: CsvColumnId) => {
+    updateOptions(prev => ({
+      ...prev,
+      excluded: prev.excluded.includes(id)
+        ? prev.excluded.filter(excludedId => excludedId !== id)
+        : [...prev.excluded, id],
+    }));
+  }, [updateOptions]);
+
+  // Moves a column past the next exported one (-1 = earlier, 1 = later); an
+  // excluded column just swaps with its neighbour
+  const moveColumn = useCallback((id: CsvColumnId, direction: -1 | 1) => {
+    updateOptions(prev => {
+      const isIncluded = (columnId: CsvColumnId) => !prev.excluded.includes(columnId);
+      const order = moveAmongShown(prev.order, id, direction, isIncluded(id) ? isIncluded : () => true);
+      return order === prev.order ? prev : { ...prev, order };
+    });
+  }, [updateOptions]);
+
+  const setAllColumns = useCallback((included: boolean) => {
+    updateOptions(prev => ({ ...prev, excluded: included ? [] : [...prev.order] }));
+  }, [updateOptions]);
+
+  const setDelimiter = useCallback((delimiter: CsvDelimiter) => {
+    updateOptions(prev => ({ ...prev, delimiter }));
+  }, [updateOptions]);
+
+  const setBom = useCallback((bom: boolean) => {
+    updateOptions(prev => ({ ...prev, bom }));
+  }, [updateOptions]);
+
+  const setEscapeFormulas = useCallback((escapeFormulas: boolean) => {
+    updateOptions(prev => ({ ...prev, escapeFormulas }));
+  }, [updateOptions]);
+
+  const resetOptions = useCallback(() => {
+    updateOptions(() => DEFAULT_CSV_EXPORT_OPTIONS);
+  }, [updateOptions]);
+
+  return { options, toggleColumn, moveColumn, setAllColumns, setDelimiter, setBom, setEscapeFormulas, resetOptions };
+}
@@ -0,0 +1,45 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { MomentumWindow, ProjectMomentum } from '@/types/snapshot';
+import { fetchMomentum } from '@/lib/api';
+import { useProjects } from '@/hooks/use-projects';
+
+/**
+ * Likes/comments gained per project over a window, keyed by project id.
+ * Only fetches while enabled and re-fetches after every data refresh.
+ */
+export function useMomentum(enabled: boolean, window: MomentumWindow) {
+  const { hackathon, refreshCount } = useProjects();
+  const [momentum, setMomentum] = useState<Map<number, ProjectMomentum> | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    fetchMomentum(hackathon.id, window)
+      .then(projects => {
+        if (cancelled) return;
+        setMomentum(new Map(projects.map(entry => [entry.projectId, entry])));
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.error('Failed to fetch momentum:', error);
+        setError(error instanceof Error ? error.message : 'Failed to fetch momentum');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, hackathon.id, window, refreshCount]);
+
+  return { momentum, loading, error };
+}
@@ -0,0 +1,48 @@
+'use client';
+
+import { useState, useEffect, useRef, Dispatch, SetStateAction } from 'react';
+
+/**
+ * State mirrored to localStorage under `key`. The stored value is restored
+ * after mount so server and client render the same markup, changes from
+ * other tabs are picked up, and local changes are saved from an effect, so
+ * updaters passed to the setter stay pure.
+ *
+ * `load` and `save` should be stable (module-level) functions.
+ */
+export function usePersistentState<T>(
+  key: string,
+  load: () => T,
+  save: (value: T) => void,
+  initialValue: T
+): [T, Dispatch<SetStateAction<T>>] {
+  const [value, setValue] = useState<T>(initialValue);
+  // What storage holds as far as we know; only values that differ get saved
+  const storedRef = useRef<T>(initialValue);
+
+  useEffect(() => {
+    const restore = () => {
+      const stored = load();
+      storedRef.current = stored;
+      setValue(stored);
+    };
+    restore();
+
+    // Keep other open tabs in sync
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === null || event.key === key) {
+        restore();
+      }
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, [key, load]);
+
+  useEffect(() => {
+    if (value === storedRef.current) return;
+    storedRef.current = value;
+    save(value);
+  }, [value, save]);
+
+  return [value, setValue];
+}
@@ -0,0 +1,49 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { MetricSnapshot } from '@/types/snapshot';
+import { fetchProjectHistory } from '@/lib/api';
+
+/**
+ * Likes/comments snapshots since `since` for each of a few projects, keyed by
+ * project id. Projects whose history fails to load are left out.
+ */
+export function useProjectHistory(projectIds: number[], since: Date) {
+  const [history, setHistory] = useState<Map<number, MetricSnapshot[]>>(new Map());
+  const [loading, setLoading] = useState(false);
+
+  const idsKey = projectIds.join(',');
+  const sinceTime = since.getTime();
+
+  useEffect(() => {
+    const ids = idsKey ? idsKey.split(',').map(Number) : [];
+    if (ids.length === 0) return;
+
+    let cancelled = false;
+    setLoading(true);
+
+    Promise.all(
+      ids.map(id =>
+        fetchProjectHistory(id, new Date(sinceTime))
+          .then(snapshots => [id, snapshots] as const)
+          .catch(error => {
+            console.error(`Failed to fetch history for project ${id}:`, error);
+            return null;
+          })
+      )
+    )
+      .then(entries => {
+        if (cancelled) return;
+        setHistory(new Map(entries.filter(entry => entry !== null)));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [idsKey, sinceTime]);
+
+  return { history, loading };
+}
@@ -0,0 +1,57 @@
+'use client';
+
+import { useState, useCallback, useRef } from 'react';
+
+/**
+ * Ticked projects in the dashboard table, in the order they were picked.
+ * Selection survives filter changes, so batch actions can span several searches.
+ */
+export function useProjectSelection() {
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  // Last project ticked or unticked, the start of a shift-click range
+  const anchorRef = useRef<number | null>(null);
+
+  /**
+   * Toggles one project. With `range`, every project in `orderedIds` between
+   * the previous click and this one is set to the clicked project's new state.
+   */
+  const toggle = useCallback((id: number, orderedIds: number[], range = false) => {
+    const anchor = anchorRef.current;
+    anchorRef.current = id;
+
+    setSelectedIds(prev => {
+      const select = !prev.includes(id);
+      const from = range && anchor !== null ? orderedIds.indexOf(anchor) : -1;
+      const to = orderedIds.indexOf(id);
+      const ids = from >= 0 && to >= 0
+        ? orderedIds.slice(Math.min(from, to), Math.max(from, to) + 1)
+        : [id];
+
+      if (!select) {
+        return prev.filter(selectedId => !ids.includes(selectedId));
+      }
+      return [...prev, ...ids.filter(rangeId => !prev.includes(rangeId))];
+    });
+  }, []);
+
+  const selectAll = useCallback((ids: number[]) => {
+    setSelectedIds(prev => {
+      const current = new Set(prev);
+      return [...prev, ...ids.filter(id => !current.has(id))];
+    });
+  }, []);
+
+  const deselectAll = useCallback((ids: number[]) => {
+    const removed = new Set(ids);
+    setSelectedIds(prev => prev.filter(id => !removed.has(id)));
+  }, []);
+
+  const clear = useCallback(() => {
+    anchorRef.current = null;
+    setSelectedIds([]);
+  }, []);
+
+  return { selectedIds, toggle, selectAll, deselectAll, clear };
+}
+
+export type ProjectSelection = ReturnType<typeof useProjectSelection>;
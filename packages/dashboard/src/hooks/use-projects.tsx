@@ -1,12 +1,26 @@
 'use client';
 
-import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { createContext, useContext, useState, useEffect, useRef, useCallback, useMemo, ReactNode } from 'react';
 import { Project } from '@/types/project';
-import { loadProjects, saveProjects, getLastFetchTime } from '@/lib/storage';
+import { Hackathon } from '@/types/hackathon';
+import { ProjectsDiff, SeenBaseline } from '@/types/diff';
+import {
+  loadProjects,
+  saveProjects,
+  getLastFetchTime,
+  loadSelectedHackathon,
+  saveSelectedHackathon,
+  loadSeenBaseline,
+  saveSeenBaseline,
+} from '@/lib/storage';
 import { fetchProjectsFromAPI } from '@/lib/api';
 import { validateProjects } from '@/lib/validation';
+import { diffProjects, fingerprintProjects } from '@/lib/diff';
+import { DEFAULT_HACKATHON_ID, getHackathon, isKnownHackathonId } from '@/lib/hackathons';
 
 interface ProjectsContextType {
+  hackathon: Hackathon;
+  setHackathonId: (hackathonId: string) => void;
   projects: Project[];
   loading: boolean;
   lastFetch: Date | null;
@@ -15,6 +29,8 @@ interface ProjectsContextType {
   clearError: () => void;
   isRefreshing: boolean;
   refreshCount: number;
+  changes: ProjectsDiff | null;
+  markChangesSeen: () => void;
 }
 
 const ProjectsContext = createContext<ProjectsContextType | null>(null);
@@ -22,6 +38,7 @@ const ProjectsContext = createContext<ProjectsContextType | null>(null);
 const STALE_TIME = 60 * 1000; // 1 minute - auto-refresh if data is older
 
 export function ProjectsProvider({ children }: { children: ReactNode }) {
+  const [hackathonId, setHackathonIdState] = useState<string | null>(null);
   const [projects, setProjects] = useState<Project[]>([]);
   const [loading, setLoading] = useState(false);
   const [lastFetch, setLastFetch] = useState<Date | null>(null);
@@ -29,8 +46,27 @@ export function ProjectsProvider({ children }: { children: ReactNode }) {
   const [initialLoaded, setInitialLoaded] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [refreshCount, setRefreshCount] = useState(0);
+  // What the user had seen when they last acknowledged changes
+  const [seenBaseline, setSeenBaseline] = useState<SeenBaseline | null>(null);
+  // Guards against responses for a hackathon the user has already switched away from
+  const activeHackathonRef = useRef<string | null>(null);
+
+  // Restore the last selected hackathon before the first load
+  useEffect(() => {
+    const savedHackathonId = loadSelectedHackathon();
+    setHackathonIdState(isKnownHackathonId(savedHackathonId) ? savedHackathonId : DEFAULT_HACKATHON_ID);
+  }, []);
+
+  const setHackathonId = useCallback((nextHackathonId: string) => {
+    if (!isKnownHackathonId(nextHackathonId)) return;
+    saveSelectedHackathon(nextHackathonId);
+    setHackathonIdState(nextHackathonId);
+  }, []);
 
   const fetchData = async (isBackground = false) => {
+    const requestedHackathonId = activeHackathonRef.current;
+    if (!requestedHackathonId) return;
+
     if (!isBackground) {
       setLoading(true);
       setIsRefreshing(true);
@@ -38,36 +74,55 @@ export function ProjectsProvider({ children }: { children: ReactNode }) {
     setError(null);
     
     try {
-      const newProjects = await fetchProjectsFromAPI();
+      const newProjects = await fetchProjectsFromAPI(requestedHackathonId);
       const validatedProjects = validateProjects(newProjects);
       
       if (validatedProjects.length === 0) {
         throw new Error('No valid projects received from API');
       }
       
+      saveProjects(validatedProjects, requestedHackathonId);
+      if (activeHackathonRef.current !== requestedHackathonId) return;
+
       setProjects(validatedProjects);
-      saveProjects(validatedProjects);
       setLastFetch(new Date());
       setRefreshCount(prev => prev + 1);
       
       console.log(`Successfully loaded ${validatedProjects.length} projects`);
     } catch (error) {
       console.error('Failed to fetch projects:', error);
+      if (activeHackathonRef.current !== requestedHackathonId) return;
       setError(error instanceof Error ? error.message : 'Failed to fetch projects');
     } finally {
-      if (!isBackground) {
+      if (!isBackground && activeHackathonRef.current === requestedHackathonId) {
         setLoading(false);
         setIsRefreshing(false);
       }
     }
   };
 
-  // Load data on mount with auto-fetch logic
+  // Load data whenever the selected hackathon changes, with auto-fetch logic
   useEffect(() => {
+    if (!hackathonId) return;
+
+    activeHackathonRef.current = hackathonId;
+    setInitialLoaded(false);
+    setProjects([]);
+    setLastFetch(null);
+    setError(null);
+    setLoading(false);
+    setIsRefreshing(false);
+    setSeenBaseline(null);
+
     const loadInitialData = async () => {
       try {
-        const savedProjects = loadProjects();
-        const lastFetchTime = getLastFetchTime();
+        const [savedProjects, lastFetchTime, baseline] = await Promise.all([
+          loadProjects(hackathonId),
+          getLastFetchTime(hackathonId),
+          loadSeenBaseline(hackathonId),
+        ]);
+        if (activeHackathonRef.current !== hackathonId) return;
+        setSeenBaseline(baseline);
         
         // Check if we have saved data and it's not too old
         const hasValidSavedData = savedProjects.length > 0 && lastFetchTime;
@@ -97,12 +152,14 @@ export function ProjectsProvider({ children }: { children: ReactNode }) {
         // Try to fetch fresh data as fallback
         await fetchData();
       } finally {
-        setInitialLoaded(true);
+        if (activeHackathonRef.current === hackathonId) {
+          setInitialLoaded(true);
+        }
       }
     };
 
     loadInitialData();
-  }, []);
+  }, [hackathonId]);
 
   // Set up periodic refresh when data gets stale
   useEffect(() => {
@@ -122,10 +179,36 @@ export function ProjectsProvider({ children }: { children: ReactNode }) {
     return () => clearInterval(interval);
   }, [lastFetch, initialLoaded]);
 
+  const changes = useMemo(
+    () => seenBaseline && projects.length > 0
+      ? diffProjects(seenBaseline.projects, projects, new Date(seenBaseline.seenAt))
+      : null,
+    [seenBaseline, projects]
+  );
+
+  const markChangesSeen = useCallback(() => {
+    if (!hackathonId || projects.length === 0) return;
+
+    const baseline: SeenBaseline = {
+      seenAt: new Date().toISOString(),
+      projects: fingerprintProjects(projects),
+    };
+    saveSeenBaseline(baseline, hackathonId);
+    setSeenBaseline(baseline);
+  }, [hackathonId, projects]);
+
+  // First visit for this hackathon: everything currently loaded counts as seen
+  useEffect(() => {
+    if (!initialLoaded || seenBaseline || projects.length === 0) return;
+    markChangesSeen();
+  }, [initialLoaded, seenBaseline, projects.length, markChangesSeen]);
+
   const clearError = () => setError(null);
 
   return (
     <ProjectsContext.Provider value={{
+      hackathon: getHackathon(hackathonId),
+      setHackathonId,
       projects,
       loading,
       lastFetch,
@@ -133,7 +216,9 @@ export function ProjectsProvider({ children }: { children: ReactNode }) {
       fetchData: () => fetchData(false),
       clearError,
       isRefreshing,
-      refreshCount
+      refreshCount,
+      changes,
+      markChangesSeen
     }}>
       {children}
     </ProjectsContext.Provider>
@@ -0,0 +1,27 @@
+'use client';
+
+import { useCallback } from 'react';
+import { FilterOptions } from '@/types/project';
+import { SavedView } from '@/types/saved-view';
+import { loadSavedViews, saveSavedViews, SAVED_VIEWS_KEY } from '@/lib/storage';
+import { usePersistentState } from '@/hooks/use-persistent-state';
+import { createSavedView, mergeSavedViews } from '@/lib/saved-views';
+
+export function useSavedViews() {
+  const [views, updateViews] = usePersistentState<SavedView[]>(SAVED_VIEWS_KEY, loadSavedViews, saveSavedViews, []);
+
+  // Saving under an existing name overwrites that view
+  const saveView = useCallback((name: string, filters: FilterOptions, pageSize: number) => {
+    updateViews(prev => mergeSavedViews(prev, [createSavedView(name, filters, pageSize)]));
+  }, [updateViews]);
+
+  const deleteView = useCallback((id: string) => {
+    updateViews(prev => prev.filter(view => view.id !== id));
+  }, [updateViews]);
+
+  const importViews = useCallback((imported: SavedView[]) => {
+    updateViews(prev => mergeSavedViews(prev, imported));
+  }, [updateViews]);
+
+  return { views, saveView, deleteView, importViews };
+}
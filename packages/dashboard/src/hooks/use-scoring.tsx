@@ -0,0 +1,117 @@
+'use client';
+
+import { createContext, useContext, useCallback, useMemo, ReactNode } from 'react';
+import { RubricCriterion, ScoresFile, ScoringState } from '@/types/rubric';
+import { loadScoring, saveScoring, SCORING_KEY } from '@/lib/storage';
+import { usePersistentState } from '@/hooks/use-persistent-state';
+import {
+  DEFAULT_SCORING_STATE,
+  ScoresImportResult,
+  computeWeightedScore,
+  importScoresFile,
+  sanitizeReviewerName,
+  setCriteria,
+  updateProjectScore,
+} from '@/lib/rubric';
+
+interface ScoringContextType {
+  scoring: ScoringState;
+  criteria: RubricCriterion[];
+  reviewer: string;
+  // The local reviewer's weighted score per scored project
+  weightedScores: Map<number, number>;
+  getScores: (projectId: number) => Record<string, number>;
+  setScore: (projectId: number, criterionId: string, score: number | null) => void;
+  setReviewer: (name: string) => void;
+  updateCriteria: (criteria: RubricCriterion[]) => void;
+  // Throws with a user-facing message if the file can't be imported
+  importScores: (file: ScoresFile) => Omit<ScoresImportResult, 'state'>;
+  removeReviewer: (reviewer: string) => void;
+}
+
+const ScoringContext = createContext<ScoringContextType | null>(null);
+
+export function ScoringProvider({ children }: { children: ReactNode }) {
+  const [scoring, updateScoring] = usePersistentState<ScoringState>(SCORING_KEY, loadScoring, saveScoring, DEFAULT_SCORING_STATE);
+
+  const weightedScores = useMemo(() => {
+    const scores = new Map<number, number>();
+    for (const [key, entry] of Object.entries(scoring.projects)) {
+      const score = computeWeightedScore(scoring.criteria, entry.scores);
+      if (score !== null) scores.set(Number(key), score);
+    }
+    return scores;
+  }, [scoring.criteria, scoring.projects]);
+
+  const getScores = useCallback(
+    (projectId: number) => scoring.projects[projectId]?.scores ?? {},
+    [scoring.projects]
+  );
+
+  const setScore = useCallback((projectId: number, criterionId: string, score: number | null) => {
+    updateScoring(prev => ({
+      ...prev,
+      projects: updateProjectScore(prev.projects, projectId, criterionId, score),
+    }));
+  }, [updateScoring]);
+
+  const setReviewer = useCallback((name: string) => {
+    const reviewer = sanitizeReviewerName(name);
+    if (!reviewer) return;
+    updateScoring(prev => prev.reviewer === reviewer ? prev : { ...prev, reviewer });
+  }, [updateScoring]);
+
+  const updateCriteria = useCallback((criteria: RubricCriterion[]) => {
+    updateScoring(prev => setCriteria(prev, criteria));
+  }, [updateScoring]);
+
+  const importScores = useCallback((file: ScoresFile) => {
+    // Run once up front so a refused import throws here, not in the updater
+    const { importedCount, unmatchedCriteria } = importScoresFile(scoring, file);
+    updateScoring(prev => importScoresFile(prev, file).state);
+    return { importedCount, unmatchedCriteria };
+  }, [scoring, updateScoring]);
+
+  const removeReviewer = useCallback((reviewer: string) => {
+    updateScoring(prev => ({
+      ...prev,
+      imported: prev.imported.filter(entry => entry.reviewer !== reviewer),
+    }));
+  }, [updateScoring]);
+
+  const value = useMemo(() => ({
+    scoring,
+    criteria: scoring.criteria,
+    reviewer: scoring.reviewer,
+    weightedScores,
+    getScores,
+    setScore,
+    setReviewer,
+    updateCriteria,
+    importScores,
+    removeReviewer,
+  }), [
+    scoring,
+    weightedScores,
+    getScores,
+    setScore,
+    setReviewer,
+    updateCriteria,
+    importScores,
+    removeReviewer,
+  ]);
+
+  return (
+    <ScoringContext.Provider value={value}>
+      {children}
+    </ScoringContext.Provider>
+  );
+}
+
+export function useScoring() {
+  const context = useContext(ScoringContext);
+  if (!context) {
+    throw new Error('useScoring must be used within a ScoringProvider');
+  }
+  return context;
+}
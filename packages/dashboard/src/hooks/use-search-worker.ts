@@ -0,0 +1,98 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { FilterOptions, Project } from '@/types/project';
+import { SearchWorkerRequest, SearchWorkerResponse } from '@/types/search-worker';
+import { SearchContext, SearchEngine, SearchResult } from '@/lib/search-engine';
+
+/**
+ * Run searches in a dedicated worker, keeping only the answer to the latest request.
+ * Falls back to searching on the main thread if workers aren't available.
+ */
+export function useSearchWorker(projects: Project[], context: SearchContext, filters: FilterOptions) {
+  const workerRef = useRef<Worker | null>(null);
+  const requestIdRef = useRef(0);
+  const [workerResult, setWorkerResult] = useState<SearchResult | null>(null);
+  const [isPending, setIsPending] = useState(false);
+  const [workerFailed, setWorkerFailed] = useState(false);
+
+  // Must stay the first effect: the ones below post to the worker it creates
+  useEffect(() => {
+    if (typeof Worker === 'undefined') {
+      setWorkerFailed(true);
+      return;
+    }
+
+    let worker: Worker;
+    try {
+      worker = new Worker(new URL('../workers/search.worker.ts', import.meta.url));
+    } catch (error) {
+      console.error('Failed to start search worker, searching on the main thread:', error);
+      setWorkerFailed(true);
+      return;
+    }
+
+    worker.onmessage = (event: MessageEvent<SearchWorkerResponse>) => {
+      const message = event.data;
+      // Answers to superseded requests are ignored
+      if (message.requestId !== requestIdRef.current) return;
+
+      if (message.type === 'results') {
+        setWorkerResult(message.result);
+      } else {
+        console.error('Search worker error:', message.message);
+      }
+      setIsPending(false);
+    };
+    worker.onerror = (event) => {
+      console.error('Search worker crashed, searching on the main thread:', event.message);
+      worker.terminate();
+      workerRef.current = null;
+      setWorkerFailed(true);
+      setIsPending(false);
+    };
+
+    workerRef.current = worker;
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    workerRef.current?.postMessage({ type: 'index', projects } satisfies SearchWorkerRequest);
+  }, [projects]);
+
+  useEffect(() => {
+    workerRef.current?.postMessage({ type: 'context', context } satisfies SearchWorkerRequest);
+  }, [context]);
+
+  useEffect(() => {
+    const worker = workerRef.current;
+    if (!worker) return;
+
+    const previousRequestId = requestIdRef.current;
+    const requestId = previousRequestId + 1;
+    requestIdRef.current = requestId;
+
+    worker.postMessage({ type: 'cancel', requestId: previousRequestId } satisfies SearchWorkerRequest);
+    worker.postMessage({ type: 'search', requestId, filters } satisfies SearchWorkerRequest);
+    setIsPending(true);
+  }, [projects, context, filters, workerFailed]);
+
+  // Main-thread fallback
+  const fallbackEngine = useMemo(
+    () => (workerFailed ? new SearchEngine(projects) : null),
+    [workerFailed, projects]
+  );
+  const fallbackResult = useMemo(() => {
+    if (!fallbackEngine) return null;
+    fallbackEngine.setContext(context);
+    return fallbackEngine.search(filters);
+  }, [fallbackEngine, context, filters]);
+
+  return {
+    result: workerFailed ? fallbackResult : workerResult,
+    isPending: workerFailed ? false : isPending,
+  };
+}
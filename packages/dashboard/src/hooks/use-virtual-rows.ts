@@ -0,0 +1,172 @@
+'use client';
+
+import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+
+/**
+ * Windowed rendering for long tables. Only the rows in (or near) the scroll
+ * container's viewport are rendered; spacer rows stand in for the rest.
+ *
+ * Rendered rows must carry `data-virtual-key={key}`. Their real heights are
+ * measured (and re-measured when they change, e.g. an expanded description),
+ * and the first visible row is used as an anchor so the view stays on the
+ * same project when the list is filtered or re-sorted.
+ */
+
+interface VirtualRowsOptions {
+  enabled: boolean;
+  estimatedRowHeight: number;
+  // Extra rows rendered above and below the viewport
+  overscan?: number;
+}
+
+interface ScrollAnchor {
+  key: string;
+  // How far the viewport top is into that row
+  offset: number;
+}
+
+// Index of the row containing `position`, given row tops (length rows + 1)
+function findRow(tops: number[], position: number): number {
+  let low = 0;
+  let high = tops.length - 2;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (tops[mid] <= position) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return Math.max(0, low);
+}
+
+export function useVirtualRows(keys: string[], { enabled, estimatedRowHeight, overscan = 6 }: VirtualRowsOptions) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const anchorRef = useRef<ScrollAnchor | null>(null);
+  // Measured row heights by key; rows not measured yet use the estimate
+  const [heights, setHeights] = useState<ReadonlyMap<string, number>>(() => new Map());
+  const [viewport, setViewport] = useState({ scrollTop: 0, height: 0 });
+
+  const tops = useMemo(() => {
+    const result = new Array<number>(keys.length + 1);
+    result[0] = 0;
+    keys.forEach((key, index) => {
+      result[index + 1] = result[index] + (heights.get(key) ?? estimatedRowHeight);
+    });
+    return result;
+  }, [keys, estimatedRowHeight, heights]);
+
+  const topsRef = useRef(tops);
+  topsRef.current = tops;
+  const keysRef = useRef(keys);
+  keysRef.current = keys;
+
+  const updateViewport = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const { scrollTop, clientHeight } = container;
+    setViewport(prev =>
+      prev.scrollTop === scrollTop && prev.height === clientHeight ? prev : { scrollTop, height: clientHeight }
+    );
+
+    // At the very top, stay at the top
+    const currentKeys = keysRef.current;
+    if (scrollTop > 0 && currentKeys.length > 0) {
+      const index = findRow(topsRef.current, scrollTop);
+      anchorRef.current = { key: currentKeys[index], offset: scrollTop - topsRef.current[index] };
+    } else {
+      anchorRef.current = null;
+    }
+  }, []);
+
+  // Track scrolling and viewport size
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!enabled || !container) return;
+
+    updateViewport();
+    container.addEventListener('scroll', updateViewport, { passive: true });
+    const observer = new ResizeObserver(updateViewport);
+    observer.observe(container);
+
+    return () => {
+      container.removeEventListener('scroll', updateViewport);
+      observer.disconnect();
+    };
+  }, [enabled, updateViewport]);
+
+  // Measure rendered rows whenever they change size
+  const rowObserverRef = useRef<ResizeObserver | null>(null);
+  useLayoutEffect(() => {
+    if (!enabled) return;
+
+    const observer = new ResizeObserver(entries => {
+      const measured: [string, number][] = [];
+      for (const entry of entries) {
+        const row = entry.target as HTMLElement;
+        // Rows scrolled out of the window keep their last measurement
+        if (!row.isConnected) {
+          observer.unobserve(row);
+          continue;
+        }
+        const key = row.dataset.virtualKey;
+        const height = row.getBoundingClientRect().height;
+        if (key !== undefined && height > 0) {
+          measured.push([key, height]);
+        }
+      }
+      // Keep the same map when nothing changed so the row tops aren't recomputed
+      setHeights(prev => {
+        const changed = measured.filter(([key, height]) => prev.get(key) !== height);
+        return changed.length > 0 ? new Map([...prev, ...changed]) : prev;
+      });
+    });
+    rowObserverRef.current = observer;
+
+    return () => {
+      observer.disconnect();
+      rowObserverRef.current = null;
+    };
+  }, [enabled]);
+
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    const observer = rowObserverRef.current;
+    if (!enabled || !container || !observer) return;
+
+    container.querySelectorAll<HTMLElement>('[data-virtual-key]').forEach(row => observer.observe(row));
+  });
+
+  // Keep the anchored project in place when the list changes underneath it
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    const anchor = anchorRef.current;
+    if (!enabled || !container || !anchor) return;
+
+    const index = keys.indexOf(anchor.key);
+    if (index >= 0) {
+      container.scrollTop = topsRef.current[index] + anchor.offset;
+    }
+    updateViewport();
+    // Row tops are read from a ref: re-anchoring on every measurement would fight the user's scrolling
+  }, [keys, enabled, updateViewport]);
+
+  if (!enabled) {
+    return { containerRef, start: 0, end: keys.length, paddingTop: 0, paddingBottom: 0 };
+  }
+
+  const totalHeight = tops[keys.length];
+  // Before the first measurement, render roughly one screen
+  const viewportHeight = viewport.height || estimatedRowHeight * 10;
+  const start = Math.max(0, findRow(tops, viewport.scrollTop) - overscan);
+  const end = Math.min(keys.length, findRow(tops, viewport.scrollTop + viewportHeight) + 1 + overscan);
+
+  return {
+    containerRef,
+    start,
+    end,
+    paddingTop: tops[start],
+    paddingBottom: totalHeight - tops[end],
+  };
+}
@@ -0,0 +1,66 @@
+'use client';
+
+import { createContext, useContext, useCallback, useMemo, ReactNode } from 'react';
+import { loadWatchlist, saveWatchlist, WATCHLIST_KEY } from '@/lib/storage';
+import { usePersistentState } from '@/hooks/use-persistent-state';
+
+interface WatchlistContextType {
+  watchlist: Set<number>;
+  isWatched: (projectId: number) => boolean;
+  toggleWatched: (projectId: number) => void;
+  addToWatchlist: (projectIds: number[]) => void;
+  count: number;
+}
+
+const WatchlistContext = createContext<WatchlistContextType | null>(null);
+
+const loadWatchedIds = () => new Set(loadWatchlist());
+const saveWatchedIds = (watchlist: Set<number>) => saveWatchlist(Array.from(watchlist));
+
+export function WatchlistProvider({ children }: { children: ReactNode }) {
+  const [watchlist, setWatchlist] = usePersistentState(WATCHLIST_KEY, loadWatchedIds, saveWatchedIds, new Set<number>());
+
+  const toggleWatched = useCallback((projectId: number) => {
+    setWatchlist(prev => {
+      const next = new Set(prev);
+      if (next.has(projectId)) {
+        next.delete(projectId);
+      } else {
+        next.add(projectId);
+      }
+      return next;
+    });
+  }, [setWatchlist]);
+
+  const addToWatchlist = useCallback((projectIds: number[]) => {
+    setWatchlist(prev => {
+      const next = new Set([...prev, ...projectIds]);
+      if (next.size === prev.size) return prev;
+      return next;
+    });
+  }, [setWatchlist]);
+
+  const isWatched = useCallback((projectId: number) => watchlist.has(projectId), [watchlist]);
+
+  const value = useMemo(() => ({
+    watchlist,
+    isWatched,
+    toggleWatched,
+    addToWatchlist,
+    count: watchlist.size,
+  }), [watchlist, isWatched, toggleWatched, addToWatchlist]);
+
+  return (
+    <WatchlistContext.Provider value={value}>
+      {children}
+    </WatchlistContext.Provider>
+  );
+}
+
+export function useWatchlist() {
+  const context = useContext(WatchlistContext);
+  if (!context) {
+    throw new Error('useWatchlist must be used within a WatchlistProvider');
+  }
+  return context;
+}
@@ -3,6 +3,14 @@
 import { useMemo, useState, useCallback, useRef, useEffect } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { Project, FilterOptions } from '@/types/project';
+import { useMomentum } from '@/hooks/use-momentum';
+import { useWatchlist } from '@/hooks/use-watchlist';
+import { useAnnotations } from '@/hooks/use-annotations';
+import { useScoring } from '@/hooks/use-scoring';
+import { sanitizeSearchQuery } from '@/lib/validation';
+import { parseSearchQuery } from '@/lib/search-query';
+import { useSearchWorker } from '@/hooks/use-search-worker';
+import { DEFAULT_FILTERS, PaginationState, decodeFilters, decodePagination, encodeUrlState } from '@/lib/url-state';
 
 /**
  * DEBOUNCE STRATEGY:
@@ -23,196 +31,38 @@ import { Project, FilterOptions } from '@/types/project';
  * - Heavy computation dashboards: 400-600ms
  */
 
-const DEFAULT_FILTERS: FilterOptions = {
-  search: '',
-  tracks: [],
-  countries: [],
-  teamSizeRange: [1, 50],
-  likesRange: [0, 100],
-  sortBy: 'likes',
-  sortOrder: 'desc',
-};
-
 export function useSearch(projects: Project[]) {
   const router = useRouter();
   const searchParams = useSearchParams();
   
   // Initialize state from URL params
-  const [filters, setFilters] = useState<FilterOptions>(() => {
-    const urlSearch = searchParams.get('q') || '';
-    const urlSort = searchParams.get('sort') || 'likes';
-    const urlOrder = searchParams.get('order') || 'desc';
-    const urlTracks = searchParams.get('tracks')?.split(',').filter(Boolean) || [];
-    const urlCountries = searchParams.get('countries')?.split(',').filter(Boolean) || [];
-    
-    return {
-      ...DEFAULT_FILTERS,
-      search: urlSearch,
-      sortBy: urlSort as FilterOptions['sortBy'],
-      sortOrder: urlOrder as FilterOptions['sortOrder'],
-      tracks: urlTracks,
-      countries: urlCountries,
-    };
-  });
+  const [filters, setFilters] = useState<FilterOptions>(() => decodeFilters(searchParams));
+  const [pagination, setPagination] = useState<PaginationState>(() => decodePagination(searchParams));
 
   // Separate debounced search value
   const [debouncedFilters, setDebouncedFilters] = useState<FilterOptions>(filters);
   const [isSearching, setIsSearching] = useState(false);
   const debounceRef = useRef<NodeJS.Timeout | undefined>(undefined);
   const urlSyncRef = useRef<NodeJS.Timeout | undefined>(undefined);
-  const cacheRef = useRef<Map<string, Project[]>>(new Map());
-
-  // Pre-compute search index (only when projects change)
-  const searchIndex = useMemo(() => {
-    return projects.map((project) => ({
-      id: project.id,
-      searchableText: [
-        project.name || '',
-        project.description || ''
-      ].join(' ').toLowerCase().trim(),
-      normalizedName: (project.name || '').toLowerCase(),
-      normalizedDescription: (project.description || '').toLowerCase(),
-      normalizedCountry: (project.country || '').toLowerCase(),
-      normalizedTracks: (project.tracks || []).map(t => t.toLowerCase()),
-      teamSize: project.teamMembers?.length || 1,
-      project
-    }));
-  }, [projects]);
-
-  // Fast search function (optimized)
-  const performSearch = useCallback((currentFilters: FilterOptions): Project[] => {
-    const cacheKey = JSON.stringify(currentFilters);
-    if (cacheRef.current.has(cacheKey)) {
-      return cacheRef.current.get(cacheKey)!;
-    }
-
-    let filtered = [...searchIndex];
-
-    // Text search with scoring (only if search term is long enough)
-    if (currentFilters.search && currentFilters.search.length >= 2) {
-      const searchTerm = currentFilters.search.toLowerCase();
-      const queryTerms = searchTerm.split(/\s+/).filter(Boolean);
-      const scores = new Map<number, number>();
-
-      filtered = filtered.filter(item => {
-        let score = 0;
-        let matchCount = 0;
-
-        // Quick name check first (most common)
-        if (item.normalizedName.includes(searchTerm)) {
-          score += 100;
-          matchCount++;
-        }
-
-        // Description match (if no name match)
-        if (matchCount === 0 && item.normalizedDescription.includes(searchTerm)) {
-          score += 80;
-          matchCount++;
-        }
-
-        // Multi-term search in name and description only
-        if (matchCount === 0) {
-          for (const term of queryTerms) {
-            if (item.searchableText.includes(term)) {
-              score += 30;
-              matchCount++;
-              break; // Exit early for performance
-            }
-          }
-        }
-
-        if (matchCount > 0) {
-          scores.set(item.id, score);
-          return true;
-        }
-        return false;
-      });
-
-      // Sort by relevance if searching
-      filtered.sort((a, b) => (scores.get(b.id) || 0) - (scores.get(a.id) || 0));
-    }
-
-    // Apply other filters (quick operations)
-    if (currentFilters.tracks.length > 0) {
-      const trackSet = new Set(currentFilters.tracks.map(t => t.toLowerCase()));
-      filtered = filtered.filter(item =>
-        item.normalizedTracks.some(track => trackSet.has(track))
-      );
-    }
-
-    if (currentFilters.countries.length > 0) {
-      const countrySet = new Set(currentFilters.countries.map(c => c.toLowerCase()));
-      filtered = filtered.filter(item =>
-        countrySet.has(item.normalizedCountry)
-      );
-    }
 
-    // Team size filter
-    if (currentFilters.teamSizeRange[0] > 1 || currentFilters.teamSizeRange[1] < 50) {
-      filtered = filtered.filter(item =>
-        item.teamSize >= currentFilters.teamSizeRange[0] &&
-        item.teamSize <= currentFilters.teamSizeRange[1]
-      );
-    }
-
-    // Likes filter
-    if (currentFilters.likesRange[0] > 0 || currentFilters.likesRange[1] < 100) {
-      filtered = filtered.filter(item =>
-        (item.project.likes || 0) >= currentFilters.likesRange[0] &&
-        (item.project.likes || 0) <= currentFilters.likesRange[1]
-      );
-    }
-
-    // Final sort (if not already sorted by relevance)
-    if (!currentFilters.search || currentFilters.search.length < 2) {
-      filtered.sort((a, b) => {
-        let aValue: string | number, bValue: string | number;
-        
-        switch (currentFilters.sortBy) {
-          case 'likes':
-            aValue = a.project.likes || 0;
-            bValue = b.project.likes || 0;
-            break;
-          case 'comments':
-            aValue = a.project.comments || 0;
-            bValue = b.project.comments || 0;
-            break;
-          case 'name':
-            aValue = a.project.name || '';
-            bValue = b.project.name || '';
-            break;
-          case 'country':
-            aValue = a.project.country || '';
-            bValue = b.project.country || '';
-            break;
-          case 'teamSize':
-            aValue = a.teamSize;
-            bValue = b.teamSize;
-            break;
-          default:
-            aValue = a.project.likes || 0;
-            bValue = b.project.likes || 0;
-        }
-
-        return currentFilters.sortOrder === 'asc' 
-          ? (aValue > bValue ? 1 : -1)
-          : (aValue < bValue ? 1 : -1);
-      });
-    }
+  // Momentum is only fetched while it's one of the sorts
+  const { momentum, loading: isMomentumLoading } = useMomentum(
+    filters.sortBy === 'momentum' || filters.thenBy.some(key => key.field === 'momentum'),
+    filters.momentumWindow
+  );
 
-    const results = filtered.map(item => item.project);
-    
-    // Cache results (limit cache size)
-    if (cacheRef.current.size >= 20) {
-      const firstKey = cacheRef.current.keys().next().value;
-      if (firstKey !== undefined) {
-        cacheRef.current.delete(firstKey);
-      }
-    }
-    cacheRef.current.set(cacheKey, results);
+  const { watchlist } = useWatchlist();
+  const { annotations: userAnnotations } = useAnnotations();
+  const { weightedScores: scores } = useScoring();
 
-    return results;
-  }, [searchIndex]);
+  // Tag ids resolved to names, the form filters and queries use
+  const annotations = useMemo(() => {
+    const tagNames = new Map(userAnnotations.tags.map(tag => [tag.id, tag.name]));
+    return new Map(Object.entries(userAnnotations.projects).map(([projectId, annotation]) => [
+      Number(projectId),
+      { note: annotation.note, tags: annotation.tagIds.flatMap(id => tagNames.get(id) ?? []) },
+    ]));
+  }, [userAnnotations]);
 
   // Debounce the search computation
   useEffect(() => {
@@ -258,6 +108,10 @@ export function useSearch(projects: Project[]) {
     setFilters(prev => ({ ...prev, ...updates }));
   }, []);
 
+  const updatePagination = useCallback((updates: Partial<PaginationState>) => {
+    setPagination(prev => ({ ...prev, ...updates }));
+  }, []);
+
   // Sync URL with filters (debounced)
   useEffect(() => {
     if (urlSyncRef.current) {
@@ -267,12 +121,11 @@ export function useSearch(projects: Project[]) {
     // URL updates can be longer since they're not user-facing
     // This prevents excessive browser history entries
     urlSyncRef.current = setTimeout(() => {
-      const params = new URLSearchParams();
-      if (filters.search) params.set('q', filters.search);
-      if (filters.sortBy !== 'likes') params.set('sort', filters.sortBy);
-      if (filters.sortOrder !== 'desc') params.set('order', filters.sortOrder);
-      if (filters.tracks.length > 0) params.set('tracks', filters.tracks.join(','));
-      if (filters.countries.length > 0) params.set('countries', filters.countries.join(','));
+      const params = encodeUrlState(filters, pagination);
+
+      // Keep the open project modal (owned by ProjectsTable) in place
+      const openProject = new URLSearchParams(window.location.search).get('project');
+      if (openProject) params.set('project', openProject);
       
       const urlString = params.toString();
       const currentUrl = window.location.search.substring(1);
@@ -287,18 +140,35 @@ export function useSearch(projects: Project[]) {
         clearTimeout(urlSyncRef.current);
       }
     };
-  }, [filters, router]);
+  }, [filters, pagination, router]);
 
-  // Get filtered results (only updates when debounced filters change)
-  const filteredProjects = useMemo(() => 
-    performSearch(debouncedFilters), 
-    [debouncedFilters, performSearch]
+  // Search runs in a worker (only re-queried when debounced filters change)
+  const searchContext = useMemo(
+    () => ({ momentum, watchlist, annotations, scores }),
+    [momentum, watchlist, annotations, scores]
   );
+  const { result, isPending } = useSearchWorker(projects, searchContext, debouncedFilters);
 
-  // Clear cache when projects change
-  useEffect(() => {
-    cacheRef.current.clear();
-  }, [projects]);
+  const projectsById = useMemo(
+    () => new Map(projects.map(project => [project.id, project])),
+    [projects]
+  );
+
+  // Until the first answer arrives, show everything rather than an empty table
+  const filteredProjects = useMemo(
+    () => result
+      ? result.projectIds.flatMap(id => projectsById.get(id) || [])
+      : projects,
+    [result, projectsById, projects]
+  );
+  const highlight = result?.highlight ?? null;
+  const facets = result?.facets ?? null;
+
+  // Parsed eagerly (not debounced) so syntax errors show while typing
+  const searchErrors = useMemo(
+    () => parseSearchQuery(sanitizeSearchQuery(filters.search)).errors,
+    [filters.search]
+  );
 
   const clearFilters = useCallback(() => {
     updateFilters(DEFAULT_FILTERS);
@@ -306,11 +176,30 @@ export function useSearch(projects: Project[]) {
 
   return {
     filters,
+    pagination,
     filteredProjects,
-    isSearching,
+    isSearching: isSearching || isPending,
+    searchErrors,
+    highlight,
+    facets,
     resultCount: filteredProjects.length,
+    momentum,
+    isMomentumLoading,
     updateFilters,
+    updatePagination,
     clearFilters,
-    hasActiveFilters: Boolean(filters.search || filters.tracks.length > 0 || filters.countries.length > 0)
+    hasActiveFilters: Boolean(
+      filters.search ||
+      filters.tracks.length > 0 ||
+      filters.countries.length > 0 ||
+      filters.excludedTracks.length > 0 ||
+      filters.excludedCountries.length > 0 ||
+      filters.submittedRange.some(Boolean) ||
+      filters.universityOnly ||
+      filters.universities.length > 0 ||
+      filters.requiredLinks.length > 0 ||
+      filters.tags.length > 0 ||
+      filters.watchlistOnly
+    )
   };
 }
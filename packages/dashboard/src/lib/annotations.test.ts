@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { validateAnnotations } from '@/lib/annotations';
+
+const updatedAt = '2025-05-01T00:00:00.000Z';
+
+describe('validateAnnotations', () => {
+  it('folds tags with a repeated name into the first one', () => {
+    const annotations = validateAnnotations({
+      tags: [
+        { id: 'a', name: 'Shortlist', color: 'green' },
+        { id: 'b', name: ' shortlist ', color: 'red' },
+      ],
+      projects: {
+        1: { note: '', tagIds: ['b'], updatedAt },
+        2: { note: '', tagIds: ['a', 'b'], updatedAt },
+      },
+    });
+
+    expect(annotations.tags).toEqual([{ id: 'a', name: 'Shortlist', color: 'green' }]);
+    expect(annotations.projects[1].tagIds).toEqual(['a']);
+    expect(annotations.projects[2].tagIds).toEqual(['a']);
+  });
+
+  it('keeps tag names as typed apart from control characters', () => {
+    const { tags } = validateAnnotations({
+      tags: [
+        { id: 'a', name: 'data: pipelines', color: 'blue' },
+        { id: 'b', name: 'needs\nfollow-up <soon>', color: 'blue' },
+      ],
+    });
+    expect(tags.map(tag => tag.name)).toEqual(['data: pipelines', 'needs follow-up <soon>']);
+  });
+
+  it('drops unknown tag ids and empty annotations', () => {
+    const { projects } = validateAnnotations({
+      tags: [{ id: 'a', name: 'Shortlist', color: 'green' }],
+      projects: { 1: { note: ' ', tagIds: ['missing'], updatedAt }, 2: { note: 'gm', tagIds: ['missing'], updatedAt } },
+    });
+    expect(projects).toEqual({ 2: { note: 'gm', tagIds: [], updatedAt } });
+  });
+});
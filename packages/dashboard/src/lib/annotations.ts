@@ -0,0 +1,208 @@
+import { Annotations, AnnotationsFile, ProjectAnnotation, ProjectTag, TagColor } from '@/types/annotation';
+import { sanitizeName } from '@/lib/validation';
+
+/**
+ * Private notes and colored tags on projects. Like saved views they are
+ * re-checked whenever they come from outside the app (localStorage, an
+ * imported file).
+ */
+
+export const ANNOTATIONS_FILE_VERSION = 1;
+
+const MAX_TAG_NAME_LENGTH = 40;
+const MAX_NOTE_LENGTH = 5000;
+
+// Chip classes per color; new tags take the next color in this order
+export const TAG_COLORS: Record<TagColor, string> = {
+  gray: 'bg-gray-500/15 text-gray-700 border-gray-500/30 dark:text-gray-300',
+  red: 'bg-red-500/15 text-red-700 border-red-500/30 dark:text-red-300',
+  orange: 'bg-orange-500/15 text-orange-700 border-orange-500/30 dark:text-orange-300',
+  amber: 'bg-amber-500/15 text-amber-700 border-amber-500/30 dark:text-amber-300',
+  green: 'bg-green-500/15 text-green-700 border-green-500/30 dark:text-green-300',
+  teal: 'bg-teal-500/15 text-teal-700 border-teal-500/30 dark:text-teal-300',
+  blue: 'bg-blue-500/15 text-blue-700 border-blue-500/30 dark:text-blue-300',
+  purple: 'bg-purple-500/15 text-purple-700 border-purple-500/30 dark:text-purple-300',
+  pink: 'bg-pink-500/15 text-pink-700 border-pink-500/30 dark:text-pink-300',
+};
+
+export const TAG_COLOR_NAMES = Object.keys(TAG_COLORS) as TagColor[];
+
+export const EMPTY_ANNOTATIONS: Annotations = { tags: [], projects: {} };
+
+function createTagId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function sanitizeTagName(name: string): string {
+  return sanitizeName(name, MAX_TAG_NAME_LENGTH);
+}
+
+export function findTagByName(tags: ProjectTag[], name: string): ProjectTag | undefined {
+  const normalized = name.trim().toLowerCase();
+  return tags.find(tag => tag.name.toLowerCase() === normalized);
+}
+
+export function createTag(name: string, existing: ProjectTag[], color?: TagColor): ProjectTag {
+  return {
+    id: createTagId(),
+    name: sanitizeTagName(name),
+    color: color ?? TAG_COLOR_NAMES[existing.length % TAG_COLOR_NAMES.length],
+  };
+}
+
+function isTagColor(value: unknown): value is TagColor {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(TAG_COLORS, value);
+}
+
+export function isEmptyAnnotation(annotation: ProjectAnnotation | undefined): boolean {
+  return !annotation || (!annotation.note.trim() && annotation.tagIds.length === 0);
+}
+
+export function validateAnnotations(raw: unknown): Annotations {
+  if (!raw || typeof raw !== 'object') return EMPTY_ANNOTATIONS;
+  const data = raw as Record<string, unknown>;
+
+  const tags: ProjectTag[] = [];
+  // Stored tag id -> kept tag id; a tag repeating an earlier name is folded into it
+  const tagIdMap = new Map<string, string>();
+  for (const rawTag of Array.isArray(data.tags) ? data.tags : []) {
+    const tag = rawTag as Partial<ProjectTag> | null;
+    const rawId = typeof tag?.id === 'string' ? tag.id : '';
+    const name = typeof tag?.name === 'string' ? sanitizeTagName(tag.name) : '';
+    if (!name) continue;
+
+    const duplicate = findTagByName(tags, name);
+    if (duplicate) {
+      if (rawId && !tagIdMap.has(rawId)) tagIdMap.set(rawId, duplicate.id);
+      continue;
+    }
+    const id = rawId && !tagIdMap.has(rawId) ? rawId : createTagId();
+    tags.push({
+      id,
+      name,
+      color: isTagColor(tag?.color) ? tag.color : TAG_COLOR_NAMES[tags.length % TAG_COLOR_NAMES.length],
+    });
+    if (rawId && !tagIdMap.has(rawId)) tagIdMap.set(rawId, id);
+  }
+
+  const projects: Record<number, ProjectAnnotation> = {};
+  if (data.projects && typeof data.projects === 'object') {
+    for (const [key, value] of Object.entries(data.projects)) {
+      const projectId = Number(key);
+      const entry = value as Partial<ProjectAnnotation> | null;
+      if (!Number.isInteger(projectId) || projectId <= 0 || !entry || typeof entry !== 'object') continue;
+
+      const annotation: ProjectAnnotation = {
+        note: typeof entry.note === 'string' ? entry.note.slice(0, MAX_NOTE_LENGTH) : '',
+        tagIds: Array.isArray(entry.tagIds)
+          ? Array.from(new Set(entry.tagIds.flatMap(id => (typeof id === 'string' && tagIdMap.get(id)) || [])))
+          : [],
+        updatedAt: typeof entry.updatedAt === 'string' && !isNaN(Date.parse(entry.updatedAt))
+          ? entry.updatedAt
+          : new Date().toISOString(),
+      };
+      if (!isEmptyAnnotation(annotation)) {
+        projects[projectId] = annotation;
+      }
+    }
+  }
+
+  return { tags, projects };
+}
+
+/**
+ * Applies a change to one project's annotation, dropping it once it is empty
+ */
+export function updateProjectAnnotation(
+  annotations: Annotations,
+  projectId: number,
+  update: (annotation: ProjectAnnotation) => Partial<ProjectAnnotation>
+): Annotations {
+  const current = annotations.projects[projectId] ?? { note: '', tagIds: [], updatedAt: '' };
+  const next: ProjectAnnotation = { ...current, ...update(current), updatedAt: new Date().toISOString() };
+  next.note = next.note.slice(0, MAX_NOTE_LENGTH);
+
+  const projects = { ...annotations.projects };
+  if (isEmptyAnnotation(next)) {
+    delete projects[projectId];
+  } else {
+    projects[projectId] = next;
+  }
+  return { ...annotations, projects };
+}
+
+// Tags on a project, in tag list order
+export function getProjectTags(annotations: Annotations, projectId: number): ProjectTag[] {
+  const tagIds = annotations.projects[projectId]?.tagIds;
+  return tagIds ? annotations.tags.filter(tag => tagIds.includes(tag.id)) : [];
+}
+
+export function serializeAnnotations(annotations: Annotations): string {
+  const file: AnnotationsFile = { version: ANNOTATIONS_FILE_VERSION, ...annotations };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Reads an exported notes and tags file. Throws with a user-facing message
+ * if the file isn't one.
+ */
+export function parseAnnotationsFile(text: string): Annotations {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  const file = data as Partial<AnnotationsFile> | null;
+  if (!file || typeof file !== 'object' || (!Array.isArray(file.tags) && !file.projects)) {
+    throw new Error('File does not contain notes or tags');
+  }
+
+  const annotations = validateAnnotations(file);
+  if (annotations.tags.length === 0 && Object.keys(annotations.projects).length === 0) {
+    throw new Error('No valid notes or tags found in file');
+  }
+  return annotations;
+}
+
+/**
+ * Adds imported notes and tags to the existing ones. Tags are matched by name;
+ * a project's imported note replaces the local one when it is newer, and its
+ * tags are added to the local ones.
+ */
+export function mergeAnnotations(existing: Annotations, imported: Annotations): Annotations {
+  const tags = [...existing.tags];
+  // Imported tag id -> local tag id
+  const tagIdMap = new Map<string, string>();
+  for (const tag of imported.tags) {
+    const match = findTagByName(tags, tag.name);
+    if (match) {
+      tagIdMap.set(tag.id, match.id);
+    } else {
+      const added = tags.some(other => other.id === tag.id) ? { ...tag, id: createTagId() } : tag;
+      tags.push(added);
+      tagIdMap.set(tag.id, added.id);
+    }
+  }
+
+  const projects = { ...existing.projects };
+  for (const [key, annotation] of Object.entries(imported.projects)) {
+    const projectId = Number(key);
+    const current = projects[projectId];
+    const importedTagIds = annotation.tagIds.flatMap(id => tagIdMap.get(id) ?? []);
+
+    if (!current) {
+      projects[projectId] = { ...annotation, tagIds: importedTagIds };
+      continue;
+    }
+    const importedIsNewer = annotation.updatedAt > current.updatedAt;
+    projects[projectId] = {
+      note: importedIsNewer && annotation.note.trim() ? annotation.note : current.note,
+      tagIds: Array.from(new Set([...current.tagIds, ...importedTagIds])),
+      updatedAt: importedIsNewer ? annotation.updatedAt : current.updatedAt,
+    };
+  }
+
+  return { tags, projects };
+}
@@ -1,8 +1,18 @@
 import { Project } from '@/types/project';
+import { Annotations } from '@/types/annotation';
+import { EMPTY_ANNOTATIONS } from '@/lib/annotations';
+import { CsvExportOptions, DEFAULT_CSV_EXPORT_OPTIONS, projectsToCSV } from '@/lib/csv-export';
+import {
+  MetricSnapshot,
+  ProjectHistoryResponse,
+  MomentumWindow,
+  MomentumResponse,
+  ProjectMomentum,
+} from '@/types/snapshot';
 
-export async function fetchProjectsFromAPI(): Promise<Project[]> {
+export async function fetchProjectsFromAPI(hackathonId: string): Promise<Project[]> {
   try {
-    const response = await fetch('/api/projects');
+    const response = await fetch(`/api/projects?hackathonId=${encodeURIComponent(hackathonId)}`);
     
     if (!response.ok) {
       throw new Error(`API request failed with status ${response.status}: ${response.statusText}`);
@@ -21,54 +31,53 @@ export async function fetchProjectsFromAPI(): Promise<Project[]> {
   }
 }
 
-export function exportToCSV(projects: Project[], filename: string = 'colosseum_projects.csv'): void {
-  const headers = [
-    'Rank', 'ID', 'Name', 'Slug', 'Description', 'Repository Link', 'Country', 
-    'Presentation Link', 'Technical Demo Link', 'Twitter Handle', 'Twitter Followers', 
-    'Twitter Following', 'Additional Info', 'Owner ID', 'Submitted At', 'Hackathon ID',
-    'Is University Project', 'University Name', 'Team Size', 'Likes', 'Comments',
-    'Tracks', 'Prize', 'Random Order', 'Image URL', 'Image Name', 'Image Size',
-    'Team Members', 'Arena URL', 'Created At', 'Updated At', 'GitHub URL'
-  ];
-  
-  const rows = projects.map((project, index) => [
-    index + 1,
-    project.id,
-    `"${project.name || ''}"`,
-    `"${project.slug || ''}"`,
-    `"${(project.description || '').replace(/"/g, '""')}"`,
-    `"${project.repoLink || ''}"`,
-    `"${project.country || ''}"`,
-    `"${project.presentationLink || ''}"`,
-    `"${project.technicalDemoLink || ''}"`,
-    `"${project.twitterHandle || ''}"`,
-    project.twitterFollowers || 0,
-    project.twitterFollowing || 0,
-    `"${(project.additionalInfo || '').replace(/"/g, '""')}"`,
-    project.ownerId || 0,
-    `"${project.submittedAt || ''}"`,
-    project.hackathonId || 0,
-    project.isUniversityProject ? 'Yes' : 'No',
-    `"${project.universityName || ''}"`,
-    project.teamSize || project.teamMembers?.length || 1,
-    project.likes || 0,
-    project.comments || 0,
-    `"${project.tracks ? project.tracks.join(', ') : ''}"`,
-    `"${project.prize ? JSON.stringify(project.prize).replace(/"/g, '""') : ''}"`,
-    `"${project.randomOrder || ''}"`,
-    `"${project.image?.url || ''}"`,
-    `"${project.image?.name || ''}"`,
-    project.image?.size || 0,
-    `"${project.teamMembers ? project.teamMembers.map(m => `${m.displayName} (${m.username})`).join('; ') : ''}"`,
-    `"https://arena.colosseum.org/projects/explore/${project.slug}"`,
-    `"${project.createdAt || ''}"`,
-    `"${project.updatedAt || ''}"`,
-    `"${project.github_url || ''}"`
-  ]);
-  
-  const csv = [headers.join(','), ...rows.map(row => row.join(','))].join('\n');
-  
-  const blob = new Blob([csv], { type: 'text/csv' });
+export async function fetchProjectHistory(projectId: number, since?: Date): Promise<MetricSnapshot[]> {
+  const params = new URLSearchParams();
+  if (since) params.set('since', since.toISOString());
+
+  const response = await fetch(`/api/projects/${projectId}/history?${params.toString()}`);
+
+  if (!response.ok) {
+    throw new Error(`History request failed with status ${response.status}: ${response.statusText}`);
+  }
+
+  const result: ProjectHistoryResponse = await response.json();
+  return Array.isArray(result?.snapshots) ? result.snapshots : [];
+}
+
+export async function fetchMomentum(hackathonId: string, window: MomentumWindow): Promise<ProjectMomentum[]> {
+  const params = new URLSearchParams({ hackathonId, window });
+  const response = await fetch(`/api/projects/momentum?${params.toString()}`);
+
+  if (!response.ok) {
+    throw new Error(`Momentum request failed with status ${response.status}: ${response.statusText}`);
+  }
+
+  const result: MomentumResponse = await response.json();
+  return Array.isArray(result?.projects) ? result.projects : [];
+}
+
+// Pass the user's annotations to include their tags and notes
+export function exportToCSV(
+  projects: Project[],
+  filename: string = 'colosseum_projects.csv',
+  annotations: Annotations = EMPTY_ANNOTATIONS,
+  options: CsvExportOptions = DEFAULT_CSV_EXPORT_OPTIONS
+): void {
+  const csv = projectsToCSV(projects, options, annotations);
+  if (options.delimiter === '\t') {
+    downloadFile(csv, filename.replace(/\.csv$/, '.tsv'), 'text/tab-separated-values;charset=utf-8');
+  } else {
+    downloadFile(csv, filename, 'text/csv;charset=utf-8');
+  }
+}
+
+export function exportToJSON(projects: Project[], filename: string = 'colosseum_projects.json'): void {
+  downloadFile(JSON.stringify(projects, null, 2), filename, 'application/json');
+}
+
+export function downloadFile(content: string, filename: string, type: string): void {
+  const blob = new Blob([content], { type });
   const url = window.URL.createObjectURL(blob);
   const a = document.createElement('a');
   a.href = url;
@@ -0,0 +1,108 @@
+import { cache } from 'react';
+import { ColosseumProjectsResponse, Project } from '@/types/project';
+import { validateProjects } from '@/lib/validation';
+import { HACKATHONS, getHackathon, getProjectLimit, isKnownHackathonId } from '@/lib/hackathons';
+
+/**
+ * Server-side access to the upstream Colosseum API.
+ * Used by the /api/projects proxy and by server-rendered pages.
+ */
+
+const API_CONFIG = {
+  COLOSSEUM_API_URL: 'https://api.colosseum.org/api/projects',
+  TIMEOUT: 30000, // 30 seconds
+};
+
+interface FetchProjectsOptions {
+  // Seconds to reuse the upstream response for; omit to always hit the API
+  revalidate?: number;
+}
+
+export async function fetchHackathonProjects(
+  hackathonId: string,
+  options: FetchProjectsOptions = {}
+): Promise<Project[]> {
+  const projectLimit = getProjectLimit(getHackathon(hackathonId));
+  const apiUrl = `${API_CONFIG.COLOSSEUM_API_URL}?hackathonId=${hackathonId}&limit=${projectLimit}&showWinnersOnly=false&sort=RANDOM`;
+  
+  console.log('Fetching fresh data from:', apiUrl);
+  
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), API_CONFIG.TIMEOUT);
+  
+  try {
+    const response = await fetch(apiUrl, {
+      signal: controller.signal,
+      headers: {
+        'User-Agent': 'Colosseum-Dashboard/1.0',
+        'Accept': 'application/json',
+        ...(options.revalidate === undefined && { 'Cache-Control': 'no-cache' }),
+      },
+      ...(options.revalidate !== undefined && { next: { revalidate: options.revalidate } }),
+    });
+    
+    clearTimeout(timeoutId);
+    
+    if (!response.ok) {
+      throw new Error(`API request failed with status ${response.status}: ${response.statusText}`);
+    }
+    
+    const result: ColosseumProjectsResponse = await response.json();
+    
+    if (!result || !result.projects || !Array.isArray(result.projects)) {
+      throw new Error('Invalid API response format');
+    }
+    
+    const validatedProjects = validateProjects(result.projects);
+    
+    if (validatedProjects.length === 0) {
+      throw new Error('No valid projects after validation');
+    }
+    
+    // Calculate teamSize from teamMembers array length
+    const projectsWithTeamSize = validatedProjects.map((project) => ({
+      ...project,
+      teamSize: project.teamMembers ? project.teamMembers.length : 1
+    }));
+    
+    console.log(`Successfully fetched ${projectsWithTeamSize.length} projects`);
+    return projectsWithTeamSize;
+    
+  } catch (error) {
+    clearTimeout(timeoutId);
+    throw error;
+  }
+}
+
+export interface ProjectLookup {
+  project: Project;
+  hackathonId: string;
+}
+
+/**
+ * Find a project by slug. Checks the given hackathon when there is one,
+ * otherwise every known hackathon, newest first.
+ * Wrapped in `cache` so metadata and page rendering share one lookup per request.
+ */
+export const findProjectBySlug = cache(async (
+  slug: string,
+  hackathonId?: string
+): Promise<ProjectLookup | null> => {
+  const candidates = isKnownHackathonId(hackathonId)
+    ? [hackathonId]
+    : HACKATHONS.map(hackathon => hackathon.id).reverse();
+
+  for (const candidate of candidates) {
+    try {
+      const projects = await fetchHackathonProjects(candidate, { revalidate: 300 });
+      const project = projects.find(item => item.slug === slug);
+      if (project) {
+        return { project, hackathonId: candidate };
+      }
+    } catch (error) {
+      console.error(`Failed to look up project ${slug} in hackathon ${candidate}:`, error);
+    }
+  }
+
+  return null;
+});
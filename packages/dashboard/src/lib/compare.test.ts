@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { Project } from '@/types/project';
+import { compareToMarkdown } from '@/lib/compare';
+
+function project(overrides: Partial<Project>): Project {
+  return { id: 1, name: 'Project', slug: 'project', likes: 0, comments: 0, ...overrides } as Project;
+}
+
+describe('compareToMarkdown', () => {
+  it('escapes link syntax in names and URLs', () => {
+    const markdown = compareToMarkdown([
+      project({ name: 'Solana [Beta] | Pay', repoLink: 'https://example.com/wiki/Pay_(app) v2' }),
+    ]);
+
+    expect(markdown).toContain('| [Solana \\[Beta\\] \\| Pay](/projects/project) |');
+    expect(markdown).toContain('[Repo](https://example.com/wiki/Pay_%28app%29%20v2)');
+  });
+});
@@ -0,0 +1,108 @@
+import { Project } from '@/types/project';
+import { MetricSnapshot } from '@/types/snapshot';
+import { PROJECT_LINKS, PROJECT_LINK_TYPES } from '@/lib/project-links';
+import { getEngagementRatio } from '@/lib/engagement';
+import { getProjectPath } from '@/lib/utils';
+
+/**
+ * Side-by-side comparison of a handful of projects (/compare?ids=1,2,3).
+ */
+
+export const MAX_COMPARE_PROJECTS = 4;
+
+// Valid, de-duplicated ids in the order given, capped at MAX_COMPARE_PROJECTS
+export function parseCompareIds(raw: string | null): number[] {
+  if (!raw) return [];
+
+  const ids: number[] = [];
+  for (const part of raw.split(',')) {
+    const id = /^\d+$/.test(part.trim()) ? parseInt(part, 10) : NaN;
+    if (id > 0 && !ids.includes(id)) {
+      ids.push(id);
+    }
+  }
+  return ids.slice(0, MAX_COMPARE_PROJECTS);
+}
+
+export function getComparePath(ids: number[]): string {
+  return `/compare?ids=${ids.slice(0, MAX_COMPARE_PROJECTS).join(',')}`;
+}
+
+export function formatSubmittedAt(submittedAt: string): string {
+  const date = new Date(submittedAt);
+  return !submittedAt || isNaN(date.getTime()) ? '—' : date.toLocaleString();
+}
+
+// Likes and comments gained between the first and last snapshot
+export function getHistoryChange(snapshots: MetricSnapshot[]): { likes: number; comments: number } | null {
+  if (snapshots.length < 2) return null;
+  const first = snapshots[0];
+  const last = snapshots[snapshots.length - 1];
+  return { likes: last.likes - first.likes, comments: last.comments - first.comments };
+}
+
+function formatSigned(value: number): string {
+  return value > 0 ? `+${value}` : String(value);
+}
+
+// Table cells can't contain pipes or line breaks
+function escapeCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ').trim();
+}
+
+// Brackets in the text or parentheses and spaces in the URL would end the link early
+function markdownLink(text: string, url: string): string {
+  const label = text.replace(/[\\[\]]/g, '\\$&');
+  const target = url.replace(/[()\s]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')}`);
+  return `[${label}](${target})`;
+}
+
+/**
+ * Markdown table with one column per project. History is included for the
+ * projects it has been loaded for.
+ */
+export function compareToMarkdown(
+  projects: Project[],
+  history: Map<number, MetricSnapshot[]> = new Map(),
+  origin = ''
+): string {
+  const rows: [string, (project: Project) => string][] = [
+    ['Likes', project => String(project.likes || 0)],
+    ['Comments', project => String(project.comments || 0)],
+    ['Comments per like', project => project.likes ? getEngagementRatio(project).toFixed(2) : '—'],
+    ['Team size', project => String(project.teamMembers?.length || 1)],
+    ['Country', project => project.country || '—'],
+    ['Submitted', project => formatSubmittedAt(project.submittedAt)],
+    ['University', project => project.universityName || (project.isUniversityProject ? 'Yes' : '—')],
+    ['Tracks', project => project.tracks?.join(', ') || '—'],
+    [
+      'Team',
+      project => project.teamMembers?.map(member => member.displayName || member.username).filter(Boolean).join(', ') || '—',
+    ],
+    [
+      'Links',
+      project => PROJECT_LINK_TYPES
+        .filter(link => PROJECT_LINKS[link].has(project))
+        .map(link => markdownLink(PROJECT_LINKS[link].label, PROJECT_LINKS[link].url(project) ?? ''))
+        .join(' · ') || '—',
+    ],
+    [
+      'Recent change',
+      project => {
+        const change = getHistoryChange(history.get(project.id) ?? []);
+        return change ? `${formatSigned(change.likes)} likes, ${formatSigned(change.comments)} comments` : '—';
+      },
+    ],
+  ];
+
+  const header = ['', ...projects.map(project => markdownLink(project.name, `${origin}${getProjectPath(project)}`))];
+  const lines = [
+    `| ${header.map(escapeCell).join(' | ')} |`,
+    `| ${header.map(() => '---').join(' | ')} |`,
+    ...rows.map(([label, format]) =>
+      `| ${[`**${label}**`, ...projects.map(format)].map(escapeCell).join(' | ')} |`
+    ),
+  ];
+
+  return `# Project comparison\n\n${lines.join('\n')}\n`;
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { CSV_COLUMNS, DEFAULT_CSV_EXPORT_OPTIONS, normalizeCsvExportOptions } from '@/lib/csv-export';
+
+describe('normalizeCsvExportOptions', () => {
+  it('falls back to the defaults for missing or malformed options', () => {
+    expect(normalizeCsvExportOptions(null)).toEqual(DEFAULT_CSV_EXPORT_OPTIONS);
+    expect(normalizeCsvExportOptions('columns')).toEqual(DEFAULT_CSV_EXPORT_OPTIONS);
+    expect(normalizeCsvExportOptions({ delimiter: '|', bom: 'yes', escapeFormulas: 0 })).toEqual(DEFAULT_CSV_EXPORT_OPTIONS);
+  });
+
+  it('keeps a saved order and drops unknown or repeated columns', () => {
+    const { order, excluded } = normalizeCsvExportOptions({
+      order: ['name', 'rank', 'bogus', 'name', ...CSV_COLUMNS.map(column => column.id)],
+      excluded: ['slug', 'slug', 'bogus'],
+    });
+    expect(order.slice(0, 3)).toEqual(['name', 'rank', 'id']);
+    expect(order).toHaveLength(CSV_COLUMNS.length);
+    expect(excluded).toEqual(['slug']);
+  });
+
+  it('slots columns missing from a saved order in at their default position', () => {
+    const saved = CSV_COLUMNS.map(column => column.id).filter(id => id !== 'slug' && id !== 'hackathonId');
+    const { order } = normalizeCsvExportOptions({ order: saved });
+    expect(order).toEqual(DEFAULT_CSV_EXPORT_OPTIONS.order);
+  });
+
+  it('keeps valid delimiter and flags', () => {
+    const options = normalizeCsvExportOptions({ delimiter: ';', bom: false, escapeFormulas: false });
+    expect(options).toMatchObject({ delimiter: ';', bom: false, escapeFormulas: false });
+  });
+});
@@ -0,0 +1,197 @@
+import { Project } from '@/types/project';
+import { Annotations } from '@/types/annotation';
+import { CsvDelimiter, CsvValue, CSV_DELIMITERS, toCSV } from '@/lib/csv';
+import { getProjectTags } from '@/lib/annotations';
+import { getArenaUrl } from '@/lib/utils';
+
+/**
+ * Columns of the projects CSV export and the user's saved choice of them.
+ * Missing values are written as empty fields, never as 0 or "No", so legacy
+ * fields absent from newer data don't look like real zeros. Team size is the
+ * exception: a project always has at least one member.
+ */
+
+export type CsvColumnId =
+  | 'rank'
+  | 'id'
+  | 'name'
+  | 'slug'
+  | 'description'
+  | 'repoLink'
+  | 'country'
+  | 'presentationLink'
+  | 'technicalDemoLink'
+  | 'twitterHandle'
+  | 'twitterFollowers'
+  | 'twitterFollowing'
+  | 'additionalInfo'
+  | 'ownerId'
+  | 'submittedAt'
+  | 'hackathonId'
+  | 'isUniversityProject'
+  | 'universityName'
+  | 'teamSize'
+  | 'likes'
+  | 'comments'
+  | 'tracks'
+  | 'prize'
+  | 'randomOrder'
+  | 'imageUrl'
+  | 'imageName'
+  | 'imageSize'
+  | 'teamMembers'
+  | 'arenaUrl'
+  | 'createdAt'
+  | 'updatedAt'
+  | 'githubUrl'
+  | 'tags'
+  | 'notes';
+
+interface CsvRowContext {
+  // 1-based position in the exported list
+  rank: number;
+  annotations: Annotations;
+}
+
+export interface CsvColumn {
+  id: CsvColumnId;
+  label: string;
+  value: (project: Project, row: CsvRowContext) => CsvValue;
+  // Only present in older data
+  legacy?: boolean;
+}
+
+// Empty instead of 0 when the field is missing
+const optionalNumber = (value: number | null | undefined): CsvValue =>
+  typeof value === 'number' && Number.isFinite(value) ? value : '';
+
+// In default order
+export const CSV_COLUMNS: CsvColumn[] = [
+  { id: 'rank', label: 'Rank', value: (_, row) => row.rank },
+  { id: 'id', label: 'ID', value: project => project.id },
+  { id: 'name', label: 'Name', value: project => project.name },
+  { id: 'slug', label: 'Slug', value: project => project.slug },
+  { id: 'description', label: 'Description', value: project => project.description },
+  { id: 'repoLink', label: 'Repository Link', value: project => project.repoLink },
+  { id: 'country', label: 'Country', value: project => project.country },
+  { id: 'presentationLink', label: 'Presentation Link', value: project => project.presentationLink },
+  { id: 'technicalDemoLink', label: 'Technical Demo Link', value: project => project.technicalDemoLink },
+  { id: 'twitterHandle', label: 'Twitter Handle', value: project => project.twitterHandle },
+  { id: 'twitterFollowers', label: 'Twitter Followers', value: project => optionalNumber(project.twitterFollowers), legacy: true },
+  { id: 'twitterFollowing', label: 'Twitter Following', value: project => optionalNumber(project.twitterFollowing), legacy: true },
+  { id: 'additionalInfo', label: 'Additional Info', value: project => project.additionalInfo },
+  { id: 'ownerId', label: 'Owner ID', value: project => optionalNumber(project.ownerId) },
+  { id: 'submittedAt', label: 'Submitted At', value: project => project.submittedAt },
+  { id: 'hackathonId', label: 'Hackathon ID', value: project => optionalNumber(project.hackathonId) },
+  {
+    id: 'isUniversityProject',
+    label: 'Is University Project',
+    value: project => typeof project.isUniversityProject === 'boolean' ? project.isUniversityProject : '',
+  },
+  { id: 'universityName', label: 'University Name', value: project => project.universityName },
+  // An explicit team size wins, then the member count, as in earlier exports
+  { id: 'teamSize', label: 'Team Size', value: project => project.teamSize || project.teamMembers?.length || 1 },
+  { id: 'likes', label: 'Likes', value: project => optionalNumber(project.likes) },
+  { id: 'comments', label: 'Comments', value: project => optionalNumber(project.comments) },
+  { id: 'tracks', label: 'Tracks', value: project => project.tracks?.join(', ') },
+  { id: 'prize', label: 'Prize', value: project => project.prize ? JSON.stringify(project.prize) : '' },
+  { id: 'randomOrder', label: 'Random Order', value: project => project.randomOrder },
+  { id: 'imageUrl', label: 'Image URL', value: project => project.image?.url },
+  { id: 'imageName', label: 'Image Name', value: project => project.image?.name },
+  { id: 'imageSize', label: 'Image Size', value: project => optionalNumber(project.image?.size) },
+  {
+    id: 'teamMembers',
+    label: 'Team Members',
+    value: project => project.teamMembers
+      ?.map(member => member.displayName && member.username
+        ? `${member.displayName} (${member.username})`
+        : member.displayName || member.username)
+      .filter(Boolean)
+      .join('; '),
+  },
+  { id: 'arenaUrl', label: 'Arena URL', value: project => getArenaUrl(project) },
+  { id: 'createdAt', label: 'Created At', value: project => project.createdAt, legacy: true },
+  { id: 'updatedAt', label: 'Updated At', value: project => project.updatedAt, legacy: true },
+  { id: 'githubUrl', label: 'GitHub URL', value: project => project.github_url, legacy: true },
+  {
+    id: 'tags',
+    label: 'Tags',
+    value: (project, row) => getProjectTags(row.annotations, project.id).map(tag => tag.name).join('; '),
+  },
+  { id: 'notes', label: 'Notes', value: (project, row) => row.annotations.projects[project.id]?.note },
+];
+
+export const CSV_COLUMNS_BY_ID = Object.fromEntries(
+  CSV_COLUMNS.map(column => [column.id, column])
+) as Record<CsvColumnId, CsvColumn>;
+
+export interface CsvExportOptions {
+  // Every column, in export order
+  order: CsvColumnId[];
+  excluded: CsvColumnId[];
+  delimiter: CsvDelimiter;
+  bom: boolean;
+  // Prefix text starting with =, +, -, @ with ' so spreadsheets don't run it
+  escapeFormulas: boolean;
+}
+
+export const DEFAULT_CSV_EXPORT_OPTIONS: CsvExportOptions = {
+  order: CSV_COLUMNS.map(column => column.id),
+  excluded: [],
+  delimiter: ',',
+  bom: true,
+  escapeFormulas: true,
+};
+
+function isCsvColumnId(value: unknown): value is CsvColumnId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(CSV_COLUMNS_BY_ID, value);
+}
+
+/**
+ * Repairs stored options: unknown columns are dropped and columns added since
+ * they were saved are slotted in at their default position.
+ */
+export function normalizeCsvExportOptions(raw: unknown): CsvExportOptions {
+  if (!raw || typeof raw !== 'object') return DEFAULT_CSV_EXPORT_OPTIONS;
+  const data = raw as Record<string, unknown>;
+
+  const order = Array.isArray(data.order)
+    ? data.order.filter(isCsvColumnId).filter((id, index, ids) => ids.indexOf(id) === index)
+    : [];
+  for (const [index, column] of CSV_COLUMNS.entries()) {
+    if (!order.includes(column.id)) {
+      order.splice(Math.min(index, order.length), 0, column.id);
+    }
+  }
+
+  return {
+    order,
+    excluded: Array.isArray(data.excluded) ? Array.from(new Set(data.excluded.filter(isCsvColumnId))) : [],
+    delimiter: CSV_DELIMITERS.some(option => option.value === data.delimiter)
+      ? data.delimiter as CsvDelimiter
+      : DEFAULT_CSV_EXPORT_OPTIONS.delimiter,
+    bom: typeof data.bom === 'boolean' ? data.bom : DEFAULT_CSV_EXPORT_OPTIONS.bom,
+    escapeFormulas: typeof data.escapeFormulas === 'boolean'
+      ? data.escapeFormulas
+      : DEFAULT_CSV_EXPORT_OPTIONS.escapeFormulas,
+  };
+}
+
+export function getExportedColumns(options: CsvExportOptions): CsvColumn[] {
+  return options.order
+    .filter(id => !options.excluded.includes(id))
+    .map(id => CSV_COLUMNS_BY_ID[id]);
+}
+
+export function projectsToCSV(projects: Project[], options: CsvExportOptions, annotations: Annotations): string {
+  const columns = getExportedColumns(options);
+  const rows = projects.map((project, index) => {
+    const row: CsvRowContext = { rank: index + 1, annotations };
+    return columns.map(column => column.value(project, row));
+  });
+  return toCSV(columns.map(column => column.label), rows, {
+    delimiter: options.delimiter,
+    bom: options.bom,
+    escapeFormulas: options.escapeFormulas,
+  });
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { formatCsvField, toCSV } from '@/lib/csv';
+
+describe('formatCsvField', () => {
+  it('quotes fields and doubles embedded quotes', () => {
+    expect(formatCsvField('say "gm", ser\nok')).toBe('"say ""gm"", ser\nok"');
+    expect(formatCsvField(null)).toBe('""');
+    expect(formatCsvField(true)).toBe('"Yes"');
+  });
+
+  it('neutralizes text a spreadsheet would run as a formula', () => {
+    for (const text of ['=HYPERLINK("http://evil")', '+1+1', '-2+3', '@SUM(A1)', '\tcmd', '\rcmd']) {
+      expect(formatCsvField(text)).toBe(`"'${text.replace(/"/g, '""')}"`);
+    }
+    expect(formatCsvField('a = b')).toBe('"a = b"');
+  });
+
+  it('leaves numbers and opted-out text alone', () => {
+    expect(formatCsvField(-5)).toBe('"-5"');
+    expect(formatCsvField('=1+1', false)).toBe('"=1+1"');
+  });
+});
+
+describe('toCSV', () => {
+  it('writes CRLF records with the chosen delimiter and BOM', () => {
+    expect(toCSV(['A', 'B'], [['=x', 2]], { delimiter: ';', bom: true })).toBe('\uFEFF"A";"B"\r\n"\'=x";"2"\r\n');
+    expect(toCSV(['A'], [['=x']], { escapeFormulas: false })).toBe('"A"\r\n"=x"\r\n');
+  });
+});
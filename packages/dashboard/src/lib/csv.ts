@@ -0,0 +1,46 @@
+/**
+ * RFC 4180 CSV serialization. Every field is quoted, quotes inside fields are
+ * doubled and records end in CRLF, so values with delimiters, quotes or line
+ * breaks survive a round trip. Text a spreadsheet would run as a formula is
+ * prefixed with `'` unless `escapeFormulas` is turned off.
+ */
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+export type CsvDelimiter = ',' | ';' | '\t';
+
+export const CSV_DELIMITERS: { value: CsvDelimiter; label: string }[] = [
+  { value: ',', label: 'Comma' },
+  // What Excel expects in locales that use a decimal comma
+  { value: ';', label: 'Semicolon' },
+  { value: '\t', label: 'Tab' },
+];
+
+// Lets Excel detect UTF-8
+const BOM = '\uFEFF';
+
+// Leading characters that make Excel, Sheets and LibreOffice evaluate a cell
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+export function formatCsvField(value: CsvValue, escapeFormulas = true): string {
+  if (value === null || value === undefined) return '""';
+  let text = typeof value === 'boolean' ? (value ? 'Yes' : 'No') : String(value);
+  // Numbers are left alone so negative values stay numeric
+  if (escapeFormulas && typeof value === 'string' && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+  return `"${text.replace(/"/g, '""')}"`;
+}
+
+export function toCSV(
+  headers: string[],
+  rows: CsvValue[][],
+  {
+    delimiter = ',',
+    bom = false,
+    escapeFormulas = true,
+  }: { delimiter?: CsvDelimiter; bom?: boolean; escapeFormulas?: boolean } = {}
+): string {
+  const records = [headers, ...rows].map(row => row.map(value => formatCsvField(value, escapeFormulas)).join(delimiter));
+  return (bom ? BOM : '') + records.join('\r\n') + '\r\n';
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { Project } from '@/types/project';
+import { diffProjects, fingerprintProjects, hasChanges } from '@/lib/diff';
+
+function project(id: number, overrides: Partial<Project> = {}): Project {
+  return {
+    id,
+    name: `Project ${id}`,
+    slug: `project-${id}`,
+    description: 'Payments on Solana',
+    likes: 10,
+    comments: 2,
+    tracks: ['DeFi', 'Payments'],
+    ...overrides,
+  } as Project;
+}
+
+const since = new Date('2025-05-01T00:00:00Z');
+
+describe('diffProjects', () => {
+  it('finds added, removed and changed projects', () => {
+    const baseline = fingerprintProjects([project(1), project(2), project(3)]);
+    const diff = diffProjects(baseline, [
+      project(1),
+      project(2, { likes: 15, comments: 1 }),
+      project(4),
+    ], since);
+
+    expect(diff.since).toBe(since);
+    expect(diff.added.map(added => added.id)).toEqual([4]);
+    expect(diff.addedIds.has(4)).toBe(true);
+    expect(diff.removed.map(removed => removed.id)).toEqual([3]);
+    expect(diff.changed).toEqual([
+      expect.objectContaining({ projectId: 2, likesDelta: 5, commentsDelta: -1, tracksChanged: false, descriptionChanged: false }),
+    ]);
+    expect(diff.changesById.get(2)?.likesDelta).toBe(5);
+    expect(hasChanges(diff)).toBe(true);
+  });
+
+  it('reports track and description edits', () => {
+    const baseline = fingerprintProjects([project(1)]);
+    const [change] = diffProjects(baseline, [
+      project(1, { tracks: ['Payments', 'Consumer'], description: 'Payments on Solana, now with NFTs' }),
+    ], since).changed;
+
+    expect(change).toMatchObject({
+      tracksChanged: true,
+      descriptionChanged: true,
+      previousTracks: ['DeFi', 'Payments'],
+    });
+  });
+
+  it('ignores track order and unchanged projects', () => {
+    const baseline = fingerprintProjects([project(1)]);
+    const diff = diffProjects(baseline, [project(1, { tracks: ['Payments', 'DeFi'] })], since);
+
+    expect(diff.changed).toEqual([]);
+    expect(hasChanges(diff)).toBe(false);
+  });
+});
@@ -0,0 +1,84 @@
+import { Project } from '@/types/project';
+import { ProjectFingerprint, ProjectChange, ProjectsDiff } from '@/types/diff';
+
+/**
+ * Cheap 32-bit string hash (FNV-1a) so baselines don't have to keep full descriptions
+ */
+function hashString(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+export function fingerprintProject(project: Project): ProjectFingerprint {
+  return {
+    id: project.id,
+    name: project.name,
+    slug: project.slug,
+    likes: project.likes || 0,
+    comments: project.comments || 0,
+    tracks: [...(project.tracks || [])].sort(),
+    descriptionHash: hashString(project.description || ''),
+  };
+}
+
+export function fingerprintProjects(projects: Project[]): ProjectFingerprint[] {
+  return projects.map(fingerprintProject);
+}
+
+function sameTracks(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((track, i) => track === b[i]);
+}
+
+/**
+ * Compare what the user last saw with the current project list
+ */
+export function diffProjects(previous: ProjectFingerprint[], next: Project[], since: Date): ProjectsDiff {
+  const previousById = new Map(previous.map(fingerprint => [fingerprint.id, fingerprint]));
+  const nextIds = new Set<number>();
+
+  const added: Project[] = [];
+  const changed: ProjectChange[] = [];
+
+  for (const project of next) {
+    nextIds.add(project.id);
+    const before = previousById.get(project.id);
+
+    if (!before) {
+      added.push(project);
+      continue;
+    }
+
+    const after = fingerprintProject(project);
+    const change: ProjectChange = {
+      projectId: project.id,
+      likesDelta: after.likes - before.likes,
+      commentsDelta: after.comments - before.comments,
+      tracksChanged: !sameTracks(before.tracks, after.tracks),
+      descriptionChanged: before.descriptionHash !== after.descriptionHash,
+      previousTracks: before.tracks,
+    };
+
+    if (change.likesDelta || change.commentsDelta || change.tracksChanged || change.descriptionChanged) {
+      changed.push(change);
+    }
+  }
+
+  const removed = previous.filter(fingerprint => !nextIds.has(fingerprint.id));
+
+  return {
+    since,
+    added,
+    removed,
+    changed,
+    addedIds: new Set(added.map(project => project.id)),
+    changesById: new Map(changed.map(change => [change.projectId, change])),
+  };
+}
+
+export function hasChanges(diff: ProjectsDiff | null): diff is ProjectsDiff {
+  return Boolean(diff && (diff.added.length || diff.removed.length || diff.changed.length));
+}
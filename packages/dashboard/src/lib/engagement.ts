@@ -0,0 +1,7 @@
+import { Project } from '@/types/project';
+
+// Comments per like: how much discussion a project draws relative to its likes
+export function getEngagementRatio(project: Pick<Project, 'likes' | 'comments'>): number {
+  const likes = project.likes || 0;
+  return likes > 0 ? (project.comments || 0) / likes : 0;
+}
@@ -0,0 +1,50 @@
+import { Hackathon } from '@/types/hackathon';
+
+/**
+ * Registry of Colosseum hackathons the dashboard knows how to load.
+ * Doubles as the allow-list for the `hackathonId` query parameter.
+ */
+export const HACKATHONS: Hackathon[] = [
+  {
+    id: '2',
+    name: 'Renaissance',
+    slug: 'renaissance',
+    startDate: '2024-03-04',
+    endDate: '2024-04-08',
+    expectedProjects: 1071,
+  },
+  {
+    id: '3',
+    name: 'Radar',
+    slug: 'radar',
+    startDate: '2024-09-02',
+    endDate: '2024-10-08',
+    expectedProjects: 1359,
+  },
+  {
+    id: '4',
+    name: 'Breakout',
+    slug: 'breakout',
+    startDate: '2025-04-14',
+    endDate: '2025-05-16',
+    expectedProjects: 1412,
+  },
+];
+
+export const DEFAULT_HACKATHON_ID = '4';
+
+export function isKnownHackathonId(id: string | null | undefined): id is string {
+  return Boolean(id) && HACKATHONS.some(hackathon => hackathon.id === id);
+}
+
+export function getHackathon(id: string | null | undefined): Hackathon {
+  return HACKATHONS.find(hackathon => hackathon.id === id)
+    || HACKATHONS.find(hackathon => hackathon.id === DEFAULT_HACKATHON_ID)!;
+}
+
+/**
+ * Upstream page size for a hackathon - expected size plus headroom for late submissions
+ */
+export function getProjectLimit(hackathon: Hackathon): number {
+  return Math.ceil(hackathon.expectedProjects * 1.025 / 10) * 10;
+}
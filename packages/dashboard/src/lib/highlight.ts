@@ -0,0 +1,44 @@
+import { SearchHighlight } from '@/types/search-query';
+
+export type HighlightRange = [start: number, end: number];
+
+/**
+ * Character ranges of `text` to mark for a query, sorted and merged
+ */
+export function getHighlightRanges(text: string, highlight: SearchHighlight | null | undefined): HighlightRange[] {
+  if (!text || !highlight || (highlight.terms.size === 0 && highlight.phrases.length === 0)) {
+    return [];
+  }
+
+  const ranges: HighlightRange[] = [];
+
+  if (highlight.terms.size > 0) {
+    for (const match of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+      if (highlight.terms.has(match[0].toLowerCase())) {
+        ranges.push([match.index, match.index + match[0].length]);
+      }
+    }
+  }
+
+  const lowerText = text.toLowerCase();
+  for (const phrase of highlight.phrases) {
+    if (!phrase) continue;
+    let index = lowerText.indexOf(phrase);
+    while (index !== -1) {
+      ranges.push([index, index + phrase.length]);
+      index = lowerText.indexOf(phrase, index + phrase.length);
+    }
+  }
+
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: HighlightRange[] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([range[0], range[1]]);
+    }
+  }
+  return merged;
+}
@@ -0,0 +1,17 @@
+import { MomentumWindow } from '@/types/snapshot';
+
+export const MOMENTUM_WINDOWS: Record<MomentumWindow, { label: string; durationMs: number }> = {
+  '1h': { label: '1 hour', durationMs: 60 * 60 * 1000 },
+  '24h': { label: '24 hours', durationMs: 24 * 60 * 60 * 1000 },
+  '7d': { label: '7 days', durationMs: 7 * 24 * 60 * 60 * 1000 },
+  '30d': { label: '30 days', durationMs: 30 * 24 * 60 * 60 * 1000 },
+};
+
+export const DEFAULT_MOMENTUM_WINDOW: MomentumWindow = '24h';
+
+// Number of points in each sparkline
+export const MOMENTUM_BUCKETS = 12;
+
+export function isMomentumWindow(value: string | null | undefined): value is MomentumWindow {
+  return Boolean(value) && Object.prototype.hasOwnProperty.call(MOMENTUM_WINDOWS, value as string);
+}
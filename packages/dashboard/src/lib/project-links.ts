@@ -0,0 +1,30 @@
+import { Project, ProjectLink } from '@/types/project';
+
+export const PROJECT_LINKS: Record<ProjectLink, {
+  label: string;
+  has: (project: Project) => boolean;
+  url: (project: Project) => string | undefined;
+}> = {
+  repo: {
+    label: 'Repo',
+    has: project => Boolean(project.repoLink || project.github_url),
+    url: project => project.repoLink || project.github_url || undefined,
+  },
+  demo: {
+    label: 'Demo video',
+    has: project => Boolean(project.technicalDemoLink),
+    url: project => project.technicalDemoLink || undefined,
+  },
+  pitch: {
+    label: 'Pitch',
+    has: project => Boolean(project.presentationLink),
+    url: project => project.presentationLink || undefined,
+  },
+  twitter: {
+    label: 'Twitter',
+    has: project => Boolean(project.twitterHandle),
+    url: project => project.twitterHandle ? `https://x.com/${project.twitterHandle}` : undefined,
+  },
+};
+
+export const PROJECT_LINK_TYPES = Object.keys(PROJECT_LINKS) as ProjectLink[];
@@ -0,0 +1,180 @@
+import { describe, expect, it } from 'vitest';
+import { RubricCriterion, ScoresFile, ScoringState } from '@/types/rubric';
+import {
+  DEFAULT_SCORING_STATE,
+  buildLeaderboard,
+  computeWeightedScore,
+  importScoresFile,
+  parseScoresFile,
+  setCriteria,
+  validateScoringState,
+} from '@/lib/rubric';
+
+const criteria: RubricCriterion[] = [
+  { id: 'team', name: 'Team', description: '', weight: 2 },
+  { id: 'product', name: 'Product', description: '', weight: 1 },
+];
+
+const older = '2025-05-01T00:00:00.000Z';
+const newer = '2025-05-02T00:00:00.000Z';
+
+function state(overrides: Partial<ScoringState> = {}): ScoringState {
+  return { criteria, reviewer: 'Alice', projects: {}, imported: [], ...overrides };
+}
+
+function scoresFile(overrides: Partial<ScoresFile> = {}): ScoresFile {
+  return {
+    version: 1,
+    reviewer: 'Bob',
+    // The same rubric exported from another browser, so other ids
+    criteria: [
+      { id: 'x1', name: 'team', description: '', weight: 2 },
+      { id: 'x2', name: 'Vision', description: '', weight: 1 },
+    ],
+    projects: {
+      1: { scores: { x1: 4, x2: 5 }, updatedAt: newer },
+      2: { scores: { x2: 3 }, updatedAt: newer },
+    },
+    ...overrides,
+  };
+}
+
+describe('computeWeightedScore', () => {
+  it('averages the scored criteria by weight', () => {
+    expect(computeWeightedScore(criteria, { team: 5, product: 2 })).toBe(4);
+    expect(computeWeightedScore(criteria, { product: 3 })).toBe(3);
+  });
+
+  it('is null with nothing scored or only zero weights', () => {
+    expect(computeWeightedScore(criteria, undefined)).toBeNull();
+    expect(computeWeightedScore(criteria, {})).toBeNull();
+    const unweighted = criteria.map(criterion => ({ ...criterion, weight: 0 }));
+    expect(computeWeightedScore(unweighted, { team: 5 })).toBeNull();
+  });
+
+  it('leaves zero-weight criteria out of the mean', () => {
+    const withZero = [...criteria, { id: 'extra', name: 'Extra', description: '', weight: 0 }];
+    expect(computeWeightedScore(withZero, { team: 4, extra: 1 })).toBe(4);
+  });
+});
+
+describe('validateScoringState', () => {
+  it('falls back to the defaults without a usable rubric', () => {
+    expect(validateScoringState(null)).toEqual(DEFAULT_SCORING_STATE);
+    expect(validateScoringState({ criteria: [{ name: ' ' }] })).toEqual(DEFAULT_SCORING_STATE);
+  });
+
+  it('drops repeated criteria, invalid scores and repeated reviewers', () => {
+    const validated = validateScoringState({
+      criteria: [...criteria, { id: 'again', name: 'TEAM', weight: 1 }, { id: 'heavy', name: 'Heavy', weight: 99 }],
+      reviewer: 'Alice',
+      projects: {
+        1: { scores: { team: 5, product: 6, again: 3 }, updatedAt: older },
+        2: { scores: { product: 2.5 }, updatedAt: older },
+        x: { scores: { team: 1 }, updatedAt: older },
+      },
+      imported: [
+        { reviewer: 'Bob', projects: { 3: { scores: { team: 2 }, updatedAt: older } } },
+        { reviewer: 'bob', projects: {} },
+      ],
+    });
+
+    expect(validated.criteria.map(criterion => criterion.id)).toEqual(['team', 'product', 'heavy']);
+    expect(validated.criteria[2].weight).toBe(10);
+    expect(validated.projects).toEqual({ 1: { scores: { team: 5 }, updatedAt: older } });
+    expect(validated.imported.map(entry => entry.reviewer)).toEqual(['Bob']);
+  });
+});
+
+describe('setCriteria', () => {
+  it('drops every reviewer\'s scores on removed criteria', () => {
+    const next = setCriteria(state({
+      projects: { 1: { scores: { team: 5, product: 4 }, updatedAt: older } },
+      imported: [{ reviewer: 'Bob', projects: { 2: { scores: { product: 3 }, updatedAt: older } } }],
+    }), [criteria[0]]);
+
+    expect(next.criteria).toEqual([criteria[0]]);
+    expect(next.projects).toEqual({ 1: { scores: { team: 5 }, updatedAt: older } });
+    expect(next.imported).toEqual([{ reviewer: 'Bob', projects: {} }]);
+  });
+
+  it('keeps the rubric when left without criteria', () => {
+    const current = state();
+    expect(setCriteria(current, [])).toBe(current);
+  });
+});
+
+describe('importScoresFile', () => {
+  it('matches criteria by name and counts the projects it kept', () => {
+    const { state: next, importedCount, unmatchedCriteria } = importScoresFile(state(), scoresFile());
+
+    expect(unmatchedCriteria).toEqual(['Vision']);
+    // Project 2 was only scored on Vision
+    expect(importedCount).toBe(1);
+    expect(next.imported).toEqual([
+      { reviewer: 'Bob', projects: { 1: { scores: { team: 4 }, updatedAt: newer } } },
+    ]);
+  });
+
+  it('keeps the newer scores when a reviewer is imported again', () => {
+    const current = state({
+      imported: [{
+        reviewer: 'bob',
+        projects: {
+          1: { scores: { team: 1 }, updatedAt: older },
+          3: { scores: { team: 2 }, updatedAt: '2025-06-01T00:00:00.000Z' },
+        },
+      }],
+    });
+    const file = scoresFile({
+      projects: {
+        1: { scores: { x1: 5 }, updatedAt: newer },
+        3: { scores: { x1: 5 }, updatedAt: newer },
+      },
+    });
+
+    const [bob] = importScoresFile(current, file).state.imported;
+    expect(bob.reviewer).toBe('bob');
+    expect(bob.projects[1].scores).toEqual({ team: 5 });
+    expect(bob.projects[3].scores).toEqual({ team: 2 });
+  });
+
+  it('merges a file from the local reviewer into their own scores', () => {
+    const current = state({ projects: { 1: { scores: { team: 1 }, updatedAt: older } } });
+    const next = importScoresFile(current, scoresFile({ reviewer: 'alice' })).state;
+
+    expect(next.imported).toEqual([]);
+    expect(next.projects[1]).toEqual({ scores: { team: 4 }, updatedAt: newer });
+  });
+
+  it('refuses while either side has the default reviewer name', () => {
+    expect(() => importScoresFile(state({ reviewer: 'Me' }), scoresFile())).toThrow('Set your reviewer name');
+    const exported = JSON.stringify(scoresFile({ reviewer: 'me' }));
+    expect(() => parseScoresFile(exported)).toThrow('File does not name its reviewer');
+  });
+});
+
+describe('buildLeaderboard', () => {
+  it('ranks by mean, then by how many reviewers scored, then by id', () => {
+    const { reviewers, entries } = buildLeaderboard(state({
+      projects: {
+        1: { scores: { team: 3 }, updatedAt: older },
+        2: { scores: { team: 5 }, updatedAt: older },
+        3: { scores: { team: 4 }, updatedAt: older },
+        5: { scores: { team: 4 }, updatedAt: older },
+      },
+      imported: [{
+        reviewer: 'Bob',
+        projects: {
+          1: { scores: { team: 5 }, updatedAt: older },
+          4: { scores: { team: 4 }, updatedAt: older },
+        },
+      }],
+    }));
+
+    expect(reviewers).toEqual(['Alice', 'Bob']);
+    expect(entries.map(entry => entry.projectId)).toEqual([2, 1, 3, 4, 5]);
+    expect(entries[1]).toEqual({ projectId: 1, reviewerScores: [3, 5], mean: 4, reviewerCount: 2 });
+    expect(entries[3].reviewerScores).toEqual([null, 4]);
+  });
+});
@@ -0,0 +1,377 @@
+import {
+  LeaderboardEntry,
+  ProjectScores,
+  ReviewerScores,
+  RubricCriterion,
+  ScoresFile,
+  ScoringState,
+} from '@/types/rubric';
+import { sanitizeName } from '@/lib/validation';
+
+/**
+ * Judging rubric and per-reviewer scores. Each criterion is scored 1 to 5 and
+ * a project's score is the weighted mean of the criteria scored so far.
+ * Other reviewers' scores come in as exported files and are matched to the
+ * local rubric by criterion name.
+ */
+
+export const SCORES_FILE_VERSION = 1;
+
+export const MIN_SCORE = 1;
+export const MAX_SCORE = 5;
+export const SCORE_VALUES = [1, 2, 3, 4, 5];
+
+export const MAX_CRITERIA = 12;
+export const MAX_WEIGHT = 10;
+const MAX_NAME_LENGTH = 40;
+const MAX_DESCRIPTION_LENGTH = 200;
+
+export const DEFAULT_REVIEWER = 'Me';
+
+export const DEFAULT_CRITERIA: RubricCriterion[] = [
+  { id: 'team', name: 'Team', description: 'Experience and ability to execute', weight: 3 },
+  { id: 'product', name: 'Product', description: 'Quality and completeness of what was built', weight: 3 },
+  { id: 'technical', name: 'Technical depth', description: 'Engineering difficulty and use of Solana', weight: 2 },
+  { id: 'market', name: 'Market', description: 'Size of the opportunity and fit with it', weight: 2 },
+  { id: 'presentation', name: 'Presentation', description: 'Pitch, demo and documentation', weight: 1 },
+];
+
+export const DEFAULT_SCORING_STATE: ScoringState = {
+  criteria: DEFAULT_CRITERIA,
+  reviewer: DEFAULT_REVIEWER,
+  projects: {},
+  imported: [],
+};
+
+function createCriterionId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function createCriterion(name: string): RubricCriterion {
+  return { id: createCriterionId(), name: sanitizeCriterionName(name), description: '', weight: 1 };
+}
+
+export function sanitizeCriterionName(name: string): string {
+  return sanitizeName(name, MAX_NAME_LENGTH);
+}
+
+export function sanitizeReviewerName(name: string): string {
+  return sanitizeName(name, MAX_NAME_LENGTH);
+}
+
+export function clampWeight(weight: number): number {
+  return Number.isFinite(weight) ? Math.min(MAX_WEIGHT, Math.max(0, Math.round(weight * 10) / 10)) : 1;
+}
+
+function isScore(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= MIN_SCORE && value <= MAX_SCORE;
+}
+
+function sameName(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/**
+ * Reviewers are told apart by name, so scores under the default name can't be
+ * shared: everyone's would merge into everyone else's own.
+ */
+export function isDefaultReviewer(name: string): boolean {
+  return sameName(name, DEFAULT_REVIEWER);
+}
+
+/**
+ * Weighted mean of the scored criteria, or null when none are scored (or
+ * they all weigh 0)
+ */
+export function computeWeightedScore(criteria: RubricCriterion[], scores: Record<string, number> | undefined): number | null {
+  if (!scores) return null;
+  let total = 0;
+  let totalWeight = 0;
+  for (const criterion of criteria) {
+    const score = scores[criterion.id];
+    if (score === undefined) continue;
+    total += score * criterion.weight;
+    totalWeight += criterion.weight;
+  }
+  return totalWeight > 0 ? total / totalWeight : null;
+}
+
+export function countScored(criteria: RubricCriterion[], scores: Record<string, number> | undefined): number {
+  return scores ? criteria.filter(criterion => scores[criterion.id] !== undefined).length : 0;
+}
+
+export function formatScore(score: number | null): string {
+  return score === null ? '—' : score.toFixed(2);
+}
+
+function validateCriteria(raw: unknown): RubricCriterion[] {
+  const criteria: RubricCriterion[] = [];
+  for (const rawCriterion of Array.isArray(raw) ? raw : []) {
+    const criterion = rawCriterion as Partial<RubricCriterion> | null;
+    const name = typeof criterion?.name === 'string' ? sanitizeCriterionName(criterion.name) : '';
+    if (!name || criteria.some(other => sameName(other.name, name))) continue;
+    criteria.push({
+      id: typeof criterion?.id === 'string' && criterion.id && !criteria.some(other => other.id === criterion.id)
+        ? criterion.id
+        : createCriterionId(),
+      name,
+      description: typeof criterion?.description === 'string'
+        ? sanitizeName(criterion.description, MAX_DESCRIPTION_LENGTH)
+        : '',
+      weight: typeof criterion?.weight === 'number' ? clampWeight(criterion.weight) : 1,
+    });
+    if (criteria.length === MAX_CRITERIA) break;
+  }
+  return criteria;
+}
+
+// Keeps scores for the given criteria only
+function validateProjectScores(raw: unknown, criterionIds: Set<string>): Record<number, ProjectScores> {
+  const projects: Record<number, ProjectScores> = {};
+  if (!raw || typeof raw !== 'object') return projects;
+
+  for (const [key, value] of Object.entries(raw)) {
+    const projectId = Number(key);
+    const entry = value as Partial<ProjectScores> | null;
+    if (!Number.isInteger(projectId) || projectId <= 0 || !entry?.scores || typeof entry.scores !== 'object') continue;
+
+    const scores: Record<string, number> = {};
+    for (const [criterionId, score] of Object.entries(entry.scores)) {
+      if (criterionIds.has(criterionId) && isScore(score)) {
+        scores[criterionId] = score;
+      }
+    }
+    if (Object.keys(scores).length === 0) continue;
+
+    projects[projectId] = {
+      scores,
+      updatedAt: typeof entry.updatedAt === 'string' && !isNaN(Date.parse(entry.updatedAt))
+        ? entry.updatedAt
+        : new Date().toISOString(),
+    };
+  }
+  return projects;
+}
+
+export function validateScoringState(raw: unknown): ScoringState {
+  if (!raw || typeof raw !== 'object') return DEFAULT_SCORING_STATE;
+  const data = raw as Record<string, unknown>;
+
+  const criteria = validateCriteria(data.criteria);
+  if (criteria.length === 0) return DEFAULT_SCORING_STATE;
+  const criterionIds = new Set(criteria.map(criterion => criterion.id));
+
+  const reviewer = typeof data.reviewer === 'string' ? sanitizeReviewerName(data.reviewer) : '';
+  const imported: ReviewerScores[] = [];
+  for (const rawReviewer of Array.isArray(data.imported) ? data.imported : []) {
+    const entry = rawReviewer as Partial<ReviewerScores> | null;
+    const name = typeof entry?.reviewer === 'string' ? sanitizeReviewerName(entry.reviewer) : '';
+    if (!name || imported.some(other => sameName(other.reviewer, name))) continue;
+    imported.push({ reviewer: name, projects: validateProjectScores(entry?.projects, criterionIds) });
+  }
+
+  return {
+    criteria,
+    reviewer: reviewer || DEFAULT_REVIEWER,
+    projects: validateProjectScores(data.projects, criterionIds),
+    imported,
+  };
+}
+
+/**
+ * Sets or clears (null) one criterion score, dropping the project once
+ * nothing on it is scored
+ */
+export function updateProjectScore(
+  projects: Record<number, ProjectScores>,
+  projectId: number,
+  criterionId: string,
+  score: number | null
+): Record<number, ProjectScores> {
+  const scores = { ...projects[projectId]?.scores };
+  if (score === null) {
+    delete scores[criterionId];
+  } else if (isScore(score)) {
+    scores[criterionId] = score;
+  }
+
+  const next = { ...projects };
+  if (Object.keys(scores).length === 0) {
+    delete next[projectId];
+  } else {
+    next[projectId] = { scores, updatedAt: new Date().toISOString() };
+  }
+  return next;
+}
+
+/**
+ * Replaces the rubric. Scores on removed criteria are dropped, every reviewer's.
+ */
+export function setCriteria(state: ScoringState, criteria: RubricCriterion[]): ScoringState {
+  const validated = validateCriteria(criteria);
+  if (validated.length === 0) return state;
+  const criterionIds = new Set(validated.map(criterion => criterion.id));
+
+  return {
+    ...state,
+    criteria: validated,
+    projects: validateProjectScores(state.projects, criterionIds),
+    imported: state.imported.map(entry => ({
+      ...entry,
+      projects: validateProjectScores(entry.projects, criterionIds),
+    })),
+  };
+}
+
+export function serializeScores(state: ScoringState): string {
+  const file: ScoresFile = {
+    version: SCORES_FILE_VERSION,
+    reviewer: state.reviewer,
+    criteria: state.criteria,
+    projects: state.projects,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Reads an exported scores file. Throws with a user-facing message if the
+ * file isn't one.
+ */
+export function parseScoresFile(text: string): ScoresFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  const file = data as Partial<ScoresFile> | null;
+  if (!file || typeof file !== 'object' || !Array.isArray(file.criteria) || !file.projects) {
+    throw new Error('File does not contain rubric scores');
+  }
+
+  const reviewer = typeof file.reviewer === 'string' ? sanitizeReviewerName(file.reviewer) : '';
+  if (!reviewer || isDefaultReviewer(reviewer)) {
+    throw new Error('File does not name its reviewer');
+  }
+
+  const criteria = validateCriteria(file.criteria);
+  const projects = validateProjectScores(file.projects, new Set(criteria.map(criterion => criterion.id)));
+  if (Object.keys(projects).length === 0) {
+    throw new Error('No valid scores found in file');
+  }
+
+  return { version: SCORES_FILE_VERSION, reviewer, criteria, projects };
+}
+
+// Newer scores win, project by project
+function mergeProjectScores(
+  existing: Record<number, ProjectScores>,
+  incoming: Record<number, ProjectScores>
+): Record<number, ProjectScores> {
+  const merged = { ...existing };
+  for (const [key, scores] of Object.entries(incoming)) {
+    const projectId = Number(key);
+    if (!merged[projectId] || scores.updatedAt > merged[projectId].updatedAt) {
+      merged[projectId] = scores;
+    }
+  }
+  return merged;
+}
+
+export interface ScoresImportResult {
+  state: ScoringState;
+  // Projects with at least one score on a local criterion
+  importedCount: number;
+  // Criteria in the file the local rubric doesn't have; their scores are dropped
+  unmatchedCriteria: string[];
+}
+
+/**
+ * Adds a reviewer's exported scores. A file from the local reviewer (same
+ * name) is merged into their own scores, e.g. when moving between browsers.
+ * Throws with a user-facing message while the local reviewer has the default name.
+ */
+export function importScoresFile(state: ScoringState, file: ScoresFile): ScoresImportResult {
+  if (isDefaultReviewer(state.reviewer)) {
+    throw new Error('Set your reviewer name before importing scores');
+  }
+
+  // File criterion id -> local criterion id
+  const criterionIdMap = new Map<string, string>();
+  const unmatchedCriteria: string[] = [];
+  for (const criterion of file.criteria) {
+    const match = state.criteria.find(local => sameName(local.name, criterion.name));
+    if (match) {
+      criterionIdMap.set(criterion.id, match.id);
+    } else {
+      unmatchedCriteria.push(criterion.name);
+    }
+  }
+
+  const projects: Record<number, ProjectScores> = {};
+  for (const [key, entry] of Object.entries(file.projects)) {
+    const scores: Record<string, number> = {};
+    for (const [criterionId, score] of Object.entries(entry.scores)) {
+      const localId = criterionIdMap.get(criterionId);
+      if (localId) scores[localId] = score;
+    }
+    if (Object.keys(scores).length > 0) {
+      projects[Number(key)] = { scores, updatedAt: entry.updatedAt };
+    }
+  }
+
+  const importedCount = Object.keys(projects).length;
+  if (sameName(file.reviewer, state.reviewer)) {
+    return {
+      state: { ...state, projects: mergeProjectScores(state.projects, projects) },
+      importedCount,
+      unmatchedCriteria,
+    };
+  }
+
+  const existing = state.imported.find(entry => sameName(entry.reviewer, file.reviewer));
+  const imported = existing
+    ? state.imported.map(entry => entry === existing
+      ? { ...entry, projects: mergeProjectScores(entry.projects, projects) }
+      : entry)
+    : [...state.imported, { reviewer: file.reviewer, projects }];
+
+  return { state: { ...state, imported }, importedCount, unmatchedCriteria };
+}
+
+/**
+ * Every scored project with each reviewer's weighted score (local reviewer
+ * first) and their mean, best first
+ */
+export function buildLeaderboard(state: ScoringState): { reviewers: string[]; entries: LeaderboardEntry[] } {
+  const reviewers: ReviewerScores[] = [
+    { reviewer: state.reviewer, projects: state.projects },
+    ...state.imported,
+  ];
+
+  const projectIds = new Set<number>();
+  for (const entry of reviewers) {
+    for (const key of Object.keys(entry.projects)) {
+      projectIds.add(Number(key));
+    }
+  }
+
+  const entries: LeaderboardEntry[] = [];
+  for (const projectId of projectIds) {
+    const reviewerScores = reviewers.map(entry =>
+      computeWeightedScore(state.criteria, entry.projects[projectId]?.scores)
+    );
+    const scored = reviewerScores.filter((score): score is number => score !== null);
+    if (scored.length === 0) continue;
+    entries.push({
+      projectId,
+      reviewerScores,
+      mean: scored.reduce((sum, score) => sum + score, 0) / scored.length,
+      reviewerCount: scored.length,
+    });
+  }
+
+  entries.sort((a, b) => b.mean - a.mean || b.reviewerCount - a.reviewerCount || a.projectId - b.projectId);
+  return { reviewers: reviewers.map(entry => entry.reviewer), entries };
+}
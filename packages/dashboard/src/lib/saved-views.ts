@@ -0,0 +1,97 @@
+import { FilterOptions } from '@/types/project';
+import { SavedView, SavedViewsFile } from '@/types/saved-view';
+import { sanitizeName } from '@/lib/validation';
+import { DEFAULT_PAGINATION, isPageSize, sanitizeFilters } from '@/lib/url-state';
+
+/**
+ * Named filter presets. Views are checked again whenever they come from
+ * outside the app (localStorage, an imported file) so a stale or hand-edited
+ * entry can't put the dashboard into a state the UI couldn't produce.
+ */
+
+export const SAVED_VIEWS_FILE_VERSION = 1;
+
+const MAX_NAME_LENGTH = 80;
+
+function createViewId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function createSavedView(name: string, filters: FilterOptions, pageSize: number): SavedView {
+  return {
+    id: createViewId(),
+    name: sanitizeName(name, MAX_NAME_LENGTH),
+    filters,
+    pageSize,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+export function validateSavedView(raw: unknown): SavedView | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const data = raw as Record<string, unknown>;
+
+  const name = typeof data.name === 'string' ? sanitizeName(data.name, MAX_NAME_LENGTH) : '';
+  if (!name) return null;
+
+  const fallback = createSavedView(name, sanitizeFilters(data.filters), DEFAULT_PAGINATION.pageSize);
+  return {
+    ...fallback,
+    id: typeof data.id === 'string' && data.id ? data.id : fallback.id,
+    pageSize: isPageSize(data.pageSize) ? data.pageSize : fallback.pageSize,
+    createdAt: typeof data.createdAt === 'string' && !isNaN(Date.parse(data.createdAt))
+      ? data.createdAt
+      : fallback.createdAt,
+  };
+}
+
+export function validateSavedViews(data: unknown): SavedView[] {
+  if (!Array.isArray(data)) return [];
+  return data.flatMap(view => validateSavedView(view) || []);
+}
+
+export function serializeSavedViews(views: SavedView[]): string {
+  const file: SavedViewsFile = { version: SAVED_VIEWS_FILE_VERSION, views };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Reads an exported views file. Throws with a user-facing message if the
+ * file isn't one; individual broken views are dropped.
+ */
+export function parseSavedViewsFile(text: string): SavedView[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  // A bare array of views is accepted too
+  const rawViews = Array.isArray(data) ? data : (data as Partial<SavedViewsFile> | null)?.views;
+  if (!Array.isArray(rawViews)) {
+    throw new Error('File does not contain saved views');
+  }
+
+  const views = validateSavedViews(rawViews);
+  if (views.length === 0) {
+    throw new Error('No valid views found in file');
+  }
+  return views;
+}
+
+/**
+ * Adds imported views to the existing ones. A view with the same name as an
+ * existing one replaces it, so re-importing a teammate's file updates it.
+ */
+export function mergeSavedViews(existing: SavedView[], imported: SavedView[]): SavedView[] {
+  const importedNames = new Set(imported.map(view => view.name.toLowerCase()));
+  const kept = existing.filter(view => !importedNames.has(view.name.toLowerCase()));
+  const keptIds = new Set(kept.map(view => view.id));
+
+  return [
+    ...kept,
+    // Ids only need to be unique locally
+    ...imported.map(view => keptIds.has(view.id) ? { ...view, id: createViewId() } : view),
+  ];
+}
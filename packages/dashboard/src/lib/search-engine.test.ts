@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { Project } from '@/types/project';
+import { SearchEngine } from '@/lib/search-engine';
+import { DEFAULT_FILTERS } from '@/lib/url-state';
+
+function project(id: number, name: string, overrides: Partial<Project> = {}): Project {
+  return { id, name, description: '', tracks: [], likes: 0, comments: 0, ...overrides } as Project;
+}
+
+describe('SearchEngine sorting', () => {
+  it('sorts text ignoring case and accents', () => {
+    const engine = new SearchEngine([
+      project(1, 'zebra'),
+      project(2, 'Émile'),
+      project(3, 'apple'),
+      project(4, 'Banana'),
+    ]);
+    const { projectIds } = engine.search({ ...DEFAULT_FILTERS, sortBy: 'name', sortOrder: 'asc' });
+    expect(projectIds).toEqual([3, 4, 2, 1]);
+  });
+
+  it('treats names differing only in case as a tie for the next key', () => {
+    const engine = new SearchEngine([
+      project(1, 'Orca', { likes: 1 }),
+      project(2, 'orca', { likes: 5 }),
+    ]);
+    const { projectIds } = engine.search({
+      ...DEFAULT_FILTERS,
+      sortBy: 'name',
+      sortOrder: 'asc',
+      thenBy: [{ field: 'likes', order: 'desc' }],
+    });
+    expect(projectIds).toEqual([2, 1]);
+  });
+});
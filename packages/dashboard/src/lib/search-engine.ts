@@ -0,0 +1,317 @@
+import { FilterOptions, Project, SortField, SortKey } from '@/types/project';
+import { ProjectMomentum } from '@/types/snapshot';
+import { SearchHighlight } from '@/types/search-query';
+import { sanitizeSearchQuery } from '@/lib/validation';
+import { parseSearchQuery, matchesQuery, getFreeTextTerms, getHighlightPhrases } from '@/lib/search-query';
+import { SearchIndex, IndexedProject, tokenize, tokenizeQuery } from '@/lib/search-index';
+import { PROJECT_LINKS } from '@/lib/project-links';
+import { getEngagementRatio } from '@/lib/engagement';
+
+/**
+ * Filtering, ranking and sorting for the projects table.
+ * Framework-free so it can run in the search worker or, as a fallback, on the main thread.
+ */
+
+// Per-user state some filters and sorts depend on
+export interface SearchContext {
+  momentum: Map<number, ProjectMomentum> | null;
+  watchlist: Set<number>;
+  // Private notes and tag names, by project id
+  annotations: Map<number, { note: string; tags: string[] }>;
+  // The user's weighted rubric score, by project id
+  scores: Map<number, number>;
+}
+
+export type FacetField = 'tracks' | 'countries' | 'universities' | 'tags';
+
+// Matching projects per option, keyed by the option as displayed
+export type FacetCounts = Record<FacetField, Record<string, number>>;
+
+export interface SearchResult {
+  projectIds: number[];
+  highlight: SearchHighlight;
+  facets: FacetCounts;
+}
+
+const CACHE_SIZE = 20;
+
+// Text sort keys compare like a.localeCompare(b, undefined, { sensitivity: 'base' }),
+// so case and accents don't split "émile" from "Emile"
+const textCollator = new Intl.Collator(undefined, { sensitivity: 'base' });
+
+// Relevance added per query term found in a project's note or tags
+const ANNOTATION_TERM_SCORE = 0.5;
+
+export class SearchEngine {
+  private index: SearchIndex;
+  private context: SearchContext = { momentum: null, watchlist: new Set(), annotations: new Map(), scores: new Map() };
+  private cache = new Map<string, SearchResult>();
+
+  constructor(projects: Project[] = []) {
+    this.index = new SearchIndex(projects);
+  }
+
+  setProjects(projects: Project[]): void {
+    this.index = new SearchIndex(projects);
+    this.applyAnnotations();
+    this.cache.clear();
+  }
+
+  setContext(context: SearchContext): void {
+    this.context = context;
+    this.applyAnnotations();
+    this.cache.clear();
+  }
+
+  // Notes and tags aren't part of the index, they change without a reload
+  private applyAnnotations(): void {
+    for (const item of this.index.documents) {
+      const annotation = this.context.annotations.get(item.id);
+      item.normalizedNote = (annotation?.note || '').toLowerCase();
+      item.normalizedTags = (annotation?.tags || []).map(tag => tag.toLowerCase());
+    }
+  }
+
+  /**
+   * Sidebar and toggle filters. `skip` leaves one facet's own filter out,
+   * which is what its option counts are computed against.
+   */
+  private applyFilters(items: IndexedProject[], filters: FilterOptions, skip?: FacetField): IndexedProject[] {
+    let filtered = items;
+
+    if (filters.watchlistOnly) {
+      filtered = filtered.filter(item => this.context.watchlist.has(item.id));
+    }
+
+    if (skip !== 'tracks' && filters.tracks.length > 0) {
+      const selected = filters.tracks.map(t => t.toLowerCase());
+      filtered = filters.trackCombinator === 'and'
+        ? filtered.filter(item => selected.every(track => item.normalizedTracks.includes(track)))
+        : filtered.filter(item => item.normalizedTracks.some(track => selected.includes(track)));
+    }
+
+    // A project in any excluded track is dropped, even if it also has an included one
+    if (skip !== 'tracks' && filters.excludedTracks.length > 0) {
+      const excludedSet = new Set(filters.excludedTracks.map(t => t.toLowerCase()));
+      filtered = filtered.filter(item =>
+        !item.normalizedTracks.some(track => excludedSet.has(track))
+      );
+    }
+
+    if (skip !== 'countries' && filters.countries.length > 0) {
+      const countrySet = new Set(filters.countries.map(c => c.toLowerCase()));
+      filtered = filtered.filter(item =>
+        countrySet.has(item.normalizedCountry)
+      );
+    }
+
+    if (skip !== 'countries' && filters.excludedCountries.length > 0) {
+      const excludedSet = new Set(filters.excludedCountries.map(c => c.toLowerCase()));
+      filtered = filtered.filter(item =>
+        !excludedSet.has(item.normalizedCountry)
+      );
+    }
+
+    if (filters.universityOnly) {
+      filtered = filtered.filter(item => item.project.isUniversityProject);
+    }
+
+    if (skip !== 'universities' && filters.universities.length > 0) {
+      const universitySet = new Set(filters.universities.map(u => u.toLowerCase()));
+      filtered = filtered.filter(item =>
+        universitySet.has((item.project.universityName || '').toLowerCase())
+      );
+    }
+
+    if (skip !== 'tags' && filters.tags.length > 0) {
+      const tagSet = new Set(filters.tags.map(t => t.toLowerCase()));
+      filtered = filtered.filter(item =>
+        item.normalizedTags.some(tag => tagSet.has(tag))
+      );
+    }
+
+    if (filters.requiredLinks.length > 0) {
+      filtered = filtered.filter(item =>
+        filters.requiredLinks.every(link => PROJECT_LINKS[link].has(item.project))
+      );
+    }
+
+    // Team size filter
+    if (filters.teamSizeRange[0] > 1 || filters.teamSizeRange[1] < 50) {
+      filtered = filtered.filter(item =>
+        item.teamSize >= filters.teamSizeRange[0] &&
+        item.teamSize <= filters.teamSizeRange[1]
+      );
+    }
+
+    // Likes filter
+    if (filters.likesRange[0] > 0 || filters.likesRange[1] < 100) {
+      filtered = filtered.filter(item =>
+        (item.project.likes || 0) >= filters.likesRange[0] &&
+        (item.project.likes || 0) <= filters.likesRange[1]
+      );
+    }
+
+    // Submission window, whole days in local time
+    const [submittedFrom, submittedTo] = filters.submittedRange;
+    if (submittedFrom || submittedTo) {
+      const start = submittedFrom ? new Date(`${submittedFrom}T00:00:00`).getTime() : -Infinity;
+      const end = submittedTo ? new Date(`${submittedTo}T23:59:59.999`).getTime() : Infinity;
+      filtered = filtered.filter(item =>
+        item.submittedAt >= start && item.submittedAt <= end
+      );
+    }
+
+    return filtered;
+  }
+
+  /**
+   * Disjunctive facet counts: for each facet, how many projects would match
+   * every current filter except that facet's own selection. In match-all mode
+   * tracks narrow each other, so their counts keep the selection applied.
+   */
+  private countFacets(items: IndexedProject[], filters: FilterOptions): FacetCounts {
+    const tracks: Record<string, number> = {};
+    const trackSkip = filters.trackCombinator === 'and' ? undefined : 'tracks';
+    for (const item of this.applyFilters(items, filters, trackSkip)) {
+      for (const track of item.project.tracks || []) {
+        tracks[track] = (tracks[track] || 0) + 1;
+      }
+    }
+
+    const countries: Record<string, number> = {};
+    for (const item of this.applyFilters(items, filters, 'countries')) {
+      if (item.project.country) {
+        countries[item.project.country] = (countries[item.project.country] || 0) + 1;
+      }
+    }
+
+    const universities: Record<string, number> = {};
+    for (const item of this.applyFilters(items, filters, 'universities')) {
+      if (item.project.universityName) {
+        universities[item.project.universityName] = (universities[item.project.universityName] || 0) + 1;
+      }
+    }
+
+    const tags: Record<string, number> = {};
+    for (const item of this.applyFilters(items, filters, 'tags')) {
+      for (const tag of this.context.annotations.get(item.id)?.tags || []) {
+        tags[tag] = (tags[tag] || 0) + 1;
+      }
+    }
+
+    return { tracks, countries, universities, tags };
+  }
+
+  private getSortValue(item: IndexedProject, field: SortField): string | number {
+    switch (field) {
+      case 'likes':
+        return item.project.likes || 0;
+      case 'comments':
+        return item.project.comments || 0;
+      case 'name':
+        return item.project.name || '';
+      case 'country':
+        return item.project.country || '';
+      case 'teamSize':
+        return item.teamSize;
+      case 'submittedAt':
+        return item.submittedAt;
+      case 'university':
+        return item.project.universityName || '';
+      case 'twitter':
+        return item.project.twitterHandle || '';
+      case 'engagement':
+        return getEngagementRatio(item.project);
+      case 'momentum': {
+        // Total engagement gained over the selected window
+        const momentum = this.context.momentum?.get(item.id);
+        return momentum ? momentum.likesGained + momentum.commentsGained : 0;
+      }
+      case 'score':
+        // Unscored projects sit below every score (the lowest is 1)
+        return this.context.scores.get(item.id) ?? 0;
+      default:
+        return item.project.likes || 0;
+    }
+  }
+
+  search(currentFilters: FilterOptions): SearchResult {
+    const cacheKey = JSON.stringify(currentFilters);
+    const cached = this.cache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    let filtered = [...this.index.documents];
+
+    // Field-scoped terms, phrases and negations are plain filters
+    const query = parseSearchQuery(sanitizeSearchQuery(currentFilters.search));
+    if (query.nodes.length > 0) {
+      filtered = filtered.filter(item => matchesQuery(query, item));
+    }
+
+    // Remaining free text is ranked (only if it is long enough)
+    const queryTerms = getFreeTextTerms(query);
+    const isRanked = queryTerms.join(' ').length >= 2;
+    const highlight: SearchHighlight = { terms: new Set(), phrases: getHighlightPhrases(query) };
+
+    if (isRanked) {
+      const { scores, matchedTerms } = this.index.search(queryTerms);
+      highlight.terms = matchedTerms;
+
+      // Notes and tags match on whole query terms
+      const tokens = tokenizeQuery(queryTerms);
+      for (const item of filtered) {
+        const words = new Set([...tokenize(item.normalizedNote), ...item.normalizedTags.flatMap(tag => tokenize(tag))]);
+        const hits = tokens.filter(token => words.has(token)).length;
+        if (hits > 0) {
+          scores.set(item.id, (scores.get(item.id) || 0) + hits * ANNOTATION_TERM_SCORE);
+        }
+      }
+
+      filtered = filtered.filter(item => scores.has(item.id));
+      filtered.sort((a, b) => (scores.get(b.id) || 0) - (scores.get(a.id) || 0) || a.id - b.id);
+    }
+
+    // Apply other filters (quick operations)
+    const matched = filtered;
+    filtered = this.applyFilters(matched, currentFilters);
+    const facets = this.countFacets(matched, currentFilters);
+
+    // Final sort (if not already sorted by relevance)
+    if (!isRanked) {
+      const sortKeys: SortKey[] = [
+        { field: currentFilters.sortBy, order: currentFilters.sortOrder },
+        ...currentFilters.thenBy,
+      ];
+      filtered.sort((a, b) => {
+        for (const { field, order } of sortKeys) {
+          const aValue = this.getSortValue(a, field);
+          const bValue = this.getSortValue(b, field);
+          const result = typeof aValue === 'string' && typeof bValue === 'string'
+            ? textCollator.compare(aValue, bValue)
+            : aValue === bValue ? 0 : aValue > bValue ? 1 : -1;
+          if (result !== 0) {
+            return order === 'asc' ? result : -result;
+          }
+        }
+        // Full ties keep a fixed order between refreshes
+        return a.id - b.id;
+      });
+    }
+
+    const result: SearchResult = { projectIds: filtered.map(item => item.id), highlight, facets };
+
+    // Cache results (limit cache size)
+    if (this.cache.size >= CACHE_SIZE) {
+      const firstKey = this.cache.keys().next().value;
+      if (firstKey !== undefined) {
+        this.cache.delete(firstKey);
+      }
+    }
+    this.cache.set(cacheKey, result);
+
+    return result;
+  }
+}
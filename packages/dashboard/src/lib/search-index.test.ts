@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { Project } from '@/types/project';
+import { SearchIndex, editDistance, tokenizeQuery } from '@/lib/search-index';
+
+function project(id: number, name: string, description = '', overrides: Partial<Project> = {}): Project {
+  return { id, name, description, tracks: [], ...overrides } as Project;
+}
+
+// Project ids from best to worst
+function ranked(index: SearchIndex, query: string): number[] {
+  const { scores } = index.search([query]);
+  return Array.from(scores.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([id]) => id);
+}
+
+const index = new SearchIndex([
+  project(1, 'Stablecoin Bridge', 'Move stablecoins between chains'),
+  project(2, 'Orderbook', 'A bridge for liquidity between orderbook venues and more'),
+  project(3, 'Payments App', 'Tap to pay in stores', { tracks: ['Payments'] }),
+  project(4, 'Lending Protocol', 'Borrow against staked SOL'),
+]);
+
+describe('SearchIndex', () => {
+  it('ranks a name hit above a description hit', () => {
+    expect(ranked(index, 'bridge')).toEqual([1, 2]);
+  });
+
+  it('ranks projects matching more of the terms first', () => {
+    expect(ranked(index, 'bridge liquidity')[0]).toBe(2);
+  });
+
+  it('matches words the term is a prefix of, below exact matches', () => {
+    expect(ranked(index, 'stable')).toEqual([1]);
+    const exact = index.search(['stablecoin']).scores.get(1)!;
+    const prefix = index.search(['stable']).scores.get(1)!;
+    expect(prefix).toBeLessThan(exact);
+    expect(index.search(['st']).scores.size).toBe(0);
+  });
+
+  it('tolerates typos in proportion to word length', () => {
+    // 6 letters allow one edit, 7 or more allow two
+    expect(ranked(index, 'lendng')).toEqual([4]);
+    expect(ranked(index, 'protcool')).toEqual([4]);
+    expect(ranked(index, 'lxndng')).toEqual([]);
+    // Three letters or fewer must match exactly (or as a prefix)
+    expect(ranked(index, 'sok')).toEqual([]);
+    expect(ranked(index, 'sol')).toEqual([4]);
+  });
+
+  it('reports the vocabulary words it matched', () => {
+    expect(index.search(['lendng']).matchedTerms).toEqual(new Set(['lending']));
+  });
+});
+
+describe('editDistance', () => {
+  it('counts transpositions as one edit and gives up past the limit', () => {
+    expect(editDistance('protocol', 'protcool', 2)).toBe(1);
+    expect(editDistance('kitten', 'sitting', 3)).toBe(3);
+    expect(editDistance('kitten', 'sitting', 1)).toBe(2);
+  });
+});
+
+describe('tokenizeQuery', () => {
+  it('drops stop words unless nothing else is left', () => {
+    expect(tokenizeQuery(['the', 'Bridge', 'of'])).toEqual(['bridge']);
+    expect(tokenizeQuery(['the'])).toEqual(['the']);
+  });
+});
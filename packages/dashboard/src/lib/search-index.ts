@@ -0,0 +1,289 @@
+import { Project } from '@/types/project';
+import { QueryDocument } from '@/lib/search-query';
+
+/**
+ * In-memory full text index over the loaded projects.
+ *
+ * Ranking is BM25F: term frequencies from each field are length-normalized,
+ * weighted and summed before saturation, so a hit in the name counts for more
+ * than the same word buried in a long description. Query terms also match
+ * vocabulary entries they are a prefix of, or within a small edit distance.
+ */
+
+const FIELDS = ['name', 'tracks', 'country', 'team', 'description', 'additionalInfo'] as const;
+type Field = typeof FIELDS[number];
+
+const FIELD_WEIGHTS: Record<Field, number> = {
+  name: 3,
+  tracks: 2,
+  country: 1,
+  team: 1,
+  description: 1,
+  additionalInfo: 0.5,
+};
+
+// BM25 saturation and length normalization
+const K1 = 1.2;
+const B = 0.75;
+
+// Score multipliers for inexact matches
+const PREFIX_WEIGHT = 0.75;
+const EDIT_WEIGHTS = [1, 0.6, 0.4];
+const MAX_EXPANSIONS = 50;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is', 'it',
+  'of', 'on', 'or', 'that', 'the', 'this', 'to', 'with',
+]);
+
+const TOKEN_PATTERN = /[\p{L}\p{N}]+/gu;
+
+export function tokenize(text: string | null | undefined): string[] {
+  return text ? text.toLowerCase().match(TOKEN_PATTERN) || [] : [];
+}
+
+/**
+ * Query terms worth looking up: stop words are dropped unless that leaves nothing
+ */
+export function tokenizeQuery(terms: string[]): string[] {
+  const tokens = Array.from(new Set(terms.flatMap(term => tokenize(term))));
+  const meaningful = tokens.filter(token => !STOP_WORDS.has(token));
+  return meaningful.length > 0 ? meaningful : tokens;
+}
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent transpositions),
+ * giving up early once it exceeds `max`
+ */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previousPrevious[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    previousPrevious = previous;
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+// Longer words tolerate more typos
+function maxEditsFor(term: string): number {
+  if (term.length <= 3) return 0;
+  if (term.length <= 6) return 1;
+  return 2;
+}
+
+/**
+ * A loaded project plus the normalized fields filters and the index work on
+ */
+export interface IndexedProject extends QueryDocument {
+  id: number;
+  // Epoch milliseconds, 0 if unknown
+  submittedAt: number;
+  project: Project;
+}
+
+interface Posting {
+  doc: number;
+  // Term frequency per field, in FIELDS order
+  frequencies: number[];
+}
+
+export interface RankedMatches {
+  scores: Map<number, number>;
+  // Vocabulary words the query actually matched, for highlighting
+  matchedTerms: Set<string>;
+}
+
+export function toIndexedProject(project: Project): IndexedProject {
+  return {
+    id: project.id,
+    normalizedName: (project.name || '').toLowerCase(),
+    normalizedDescription: (project.description || '').toLowerCase(),
+    normalizedCountry: (project.country || '').toLowerCase(),
+    normalizedTracks: (project.tracks || []).map(track => track.toLowerCase()),
+    // Filled in from the search context
+    normalizedNote: '',
+    normalizedTags: [],
+    teamSize: project.teamMembers?.length || 1,
+    likes: project.likes || 0,
+    comments: project.comments || 0,
+    submittedAt: Date.parse(project.submittedAt) || 0,
+    project,
+  };
+}
+
+function fieldText(project: Project, field: Field): string {
+  switch (field) {
+    case 'name': return project.name || '';
+    case 'tracks': return (project.tracks || []).join(' ');
+    case 'country': return project.country || '';
+    case 'team': return (project.teamMembers || [])
+      .map(member => `${member.displayName || ''} ${member.username || ''}`)
+      .join(' ');
+    case 'description': return project.description || '';
+    case 'additionalInfo': return project.additionalInfo || '';
+  }
+}
+
+export class SearchIndex {
+  readonly documents: IndexedProject[];
+  private postings = new Map<string, Posting[]>();
+  private vocabulary: string[];
+  private fieldLengths: number[][];
+  private averageFieldLengths: number[];
+
+  constructor(projects: Project[]) {
+    this.documents = projects.map(toIndexedProject);
+    this.fieldLengths = projects.map(() => new Array(FIELDS.length).fill(0));
+    const totalFieldLengths = new Array(FIELDS.length).fill(0);
+
+    projects.forEach((project, doc) => {
+      const docPostings = new Map<string, Posting>();
+
+      FIELDS.forEach((field, fieldIndex) => {
+        const tokens = tokenize(fieldText(project, field));
+        this.fieldLengths[doc][fieldIndex] = tokens.length;
+        totalFieldLengths[fieldIndex] += tokens.length;
+
+        for (const token of tokens) {
+          let posting = docPostings.get(token);
+          if (!posting) {
+            posting = { doc, frequencies: new Array(FIELDS.length).fill(0) };
+            docPostings.set(token, posting);
+          }
+          posting.frequencies[fieldIndex]++;
+        }
+      });
+
+      docPostings.forEach((posting, token) => {
+        const list = this.postings.get(token);
+        if (list) {
+          list.push(posting);
+        } else {
+          this.postings.set(token, [posting]);
+        }
+      });
+    });
+
+    this.vocabulary = Array.from(this.postings.keys()).sort();
+    this.averageFieldLengths = totalFieldLengths.map(total => total / Math.max(1, projects.length));
+  }
+
+  /**
+   * Vocabulary words a query term should match, with how much each match is worth
+   */
+  expandTerm(term: string): Map<string, number> {
+    const expansions = new Map<string, number>();
+    if (this.postings.has(term)) {
+      expansions.set(term, 1);
+    }
+
+    // Prefix matches, found by binary search in the sorted vocabulary
+    if (term.length >= 3) {
+      let low = 0;
+      let high = this.vocabulary.length;
+      while (low < high) {
+        const mid = (low + high) >> 1;
+        if (this.vocabulary[mid] < term) low = mid + 1;
+        else high = mid;
+      }
+      for (let i = low; i < this.vocabulary.length && this.vocabulary[i].startsWith(term); i++) {
+        if (!expansions.has(this.vocabulary[i])) {
+          expansions.set(this.vocabulary[i], PREFIX_WEIGHT);
+        }
+      }
+    }
+
+    // Typo tolerance
+    const maxEdits = maxEditsFor(term);
+    if (maxEdits > 0) {
+      for (const word of this.vocabulary) {
+        if (expansions.has(word) || Math.abs(word.length - term.length) > maxEdits) continue;
+        const distance = editDistance(term, word, maxEdits);
+        if (distance <= maxEdits) {
+          expansions.set(word, EDIT_WEIGHTS[distance]);
+        }
+      }
+    }
+
+    // Keep the strongest expansions so very short prefixes don't touch every document
+    return new Map(
+      Array.from(expansions.entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, MAX_EXPANSIONS)
+    );
+  }
+
+  private idf(token: string): number {
+    const documentFrequency = this.postings.get(token)?.length || 0;
+    const total = this.documents.length;
+    return Math.log(1 + (total - documentFrequency + 0.5) / (documentFrequency + 0.5));
+  }
+
+  private termScore(posting: Posting): number {
+    let weightedFrequency = 0;
+    posting.frequencies.forEach((frequency, fieldIndex) => {
+      if (frequency === 0) return;
+      const averageLength = this.averageFieldLengths[fieldIndex] || 1;
+      const normalization = 1 - B + B * (this.fieldLengths[posting.doc][fieldIndex] / averageLength);
+      weightedFrequency += FIELD_WEIGHTS[FIELDS[fieldIndex]] * frequency / normalization;
+    });
+    return weightedFrequency / (K1 + weightedFrequency);
+  }
+
+  /**
+   * Rank documents for free-text terms. A document matches if any term does;
+   * matching more of the terms multiplies the score up.
+   */
+  search(terms: string[]): RankedMatches {
+    const queryTokens = tokenizeQuery(terms);
+    const matchedTerms = new Set<string>();
+    const totals = new Map<number, { score: number; matched: number }>();
+
+    for (const token of queryTokens) {
+      // Best match per document for this query term
+      const best = new Map<number, number>();
+
+      this.expandTerm(token).forEach((weight, word) => {
+        matchedTerms.add(word);
+        const idf = this.idf(word);
+        for (const posting of this.postings.get(word) || []) {
+          const score = weight * idf * this.termScore(posting);
+          if (score > (best.get(posting.doc) || 0)) {
+            best.set(posting.doc, score);
+          }
+        }
+      });
+
+      best.forEach((score, doc) => {
+        const total = totals.get(doc) || { score: 0, matched: 0 };
+        total.score += score;
+        total.matched++;
+        totals.set(doc, total);
+      });
+    }
+
+    const scores = new Map<number, number>();
+    totals.forEach(({ score, matched }, doc) => {
+      scores.set(this.documents[doc].id, score * matched / queryTokens.length);
+    });
+
+    return { scores, matchedTerms };
+  }
+}
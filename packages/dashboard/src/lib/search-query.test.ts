@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { parseNumericComparison, parseSearchQuery } from '@/lib/search-query';
+import { sanitizeSearchQuery } from '@/lib/validation';
+
+// As the search engine sees the search box
+const parse = (input: string) => parseSearchQuery(sanitizeSearchQuery(input));
+
+describe('parseNumericComparison', () => {
+  it('reads comparisons and ranges', () => {
+    expect(parseNumericComparison('20')).toEqual({ op: '=', value: 20 });
+    expect(parseNumericComparison('>=20')).toEqual({ op: '>=', value: 20 });
+    expect(parseNumericComparison('<5')).toEqual({ op: '<', value: 5 });
+    expect(parseNumericComparison('1..3')).toEqual({ op: 'range', min: 1, max: 3 });
+    expect(parseNumericComparison('10..')).toEqual({ op: 'range', min: 10, max: Infinity });
+    expect(parseNumericComparison('..3')).toEqual({ op: 'range', min: 0, max: 3 });
+  });
+
+  it('rejects malformed numbers', () => {
+    for (const text of ['', '..', '3..1', '>', 'abc', '2.5', '>>2']) {
+      expect(parseNumericComparison(text)).toBeNull();
+    }
+  });
+});
+
+describe('parseSearchQuery', () => {
+  it('parses terms, phrases, fields and negation', () => {
+    const { nodes, errors } = parse('Wallet "exact Phrase" track:DeFi -country:"United States" likes:>20 -gaming');
+
+    expect(errors).toEqual([]);
+    expect(nodes).toEqual([
+      expect.objectContaining({ type: 'term', value: 'wallet', negated: false }),
+      expect.objectContaining({ type: 'phrase', value: 'exact phrase', negated: false }),
+      expect.objectContaining({ type: 'text-field', field: 'track', value: 'defi', negated: false }),
+      expect.objectContaining({ type: 'text-field', field: 'country', value: 'united states', negated: true }),
+      expect.objectContaining({ type: 'numeric-field', field: 'likes', comparison: { op: '>', value: 20 } }),
+      expect.objectContaining({ type: 'term', value: 'gaming', negated: true }),
+    ]);
+  });
+
+  it('reads field aliases and ranges', () => {
+    const { nodes } = parse('desc:bridge teamsize:1..3');
+    expect(nodes).toEqual([
+      expect.objectContaining({ type: 'text-field', field: 'description', value: 'bridge' }),
+      expect.objectContaining({ type: 'numeric-field', field: 'team', comparison: { op: 'range', min: 1, max: 3 } }),
+    ]);
+  });
+
+  it('keeps punctuation inside quoted values', () => {
+    const { nodes, errors } = parse('tag:"shortlist, round 2" track:"Payments & Commerce (beta) #1"');
+    expect(errors).toEqual([]);
+    expect(nodes.map(node => node.type === 'text-field' && node.value)).toEqual([
+      'shortlist, round 2',
+      'payments & commerce (beta) #1',
+    ]);
+  });
+
+  it('searches unknown prefixes as text', () => {
+    const { nodes, errors } = parse('https://github.com/org/x 10:30 foo:bar');
+    expect(errors).toEqual([]);
+    expect(nodes.map(node => node.type === 'term' && node.value)).toEqual([
+      'https://github.com/org/x',
+      '10:30',
+      'foo:bar',
+    ]);
+  });
+
+  it('reports errors at their offset in the raw input and keeps the rest', () => {
+    const input = '  wallet likes:lots  name:';
+    const { nodes, errors } = parse(input);
+
+    expect(nodes).toEqual([expect.objectContaining({ type: 'term', value: 'wallet' })]);
+    expect(errors).toHaveLength(2);
+    expect(input.slice(errors[0].start, errors[0].end)).toBe('likes:lots');
+    expect(errors[0].message).toContain('Invalid number for likes');
+    expect(input.slice(errors[1].start, errors[1].end)).toBe('name:');
+  });
+
+  it('reports an unterminated quote', () => {
+    const { nodes, errors } = parse('"open phrase');
+    expect(nodes).toEqual([expect.objectContaining({ type: 'phrase', value: 'open phrase' })]);
+    expect(errors).toEqual([{ message: 'Missing closing quote', start: 0, end: 12 }]);
+  });
+});
@@ -0,0 +1,251 @@
+import {
+  NumericComparison,
+  NumericField,
+  QueryError,
+  QueryNode,
+  SearchQuery,
+  TermNode,
+  TextField,
+} from '@/types/search-query';
+
+const TEXT_FIELDS: Record<string, TextField> = {
+  name: 'name',
+  description: 'description',
+  desc: 'description',
+  track: 'track',
+  tracks: 'track',
+  country: 'country',
+  note: 'note',
+  notes: 'note',
+  tag: 'tag',
+  tags: 'tag',
+};
+
+const NUMERIC_FIELDS: Record<string, NumericField> = {
+  likes: 'likes',
+  comments: 'comments',
+  team: 'team',
+  teamsize: 'team',
+};
+
+const isWhitespace = (char: string) => /\s/.test(char);
+
+/**
+ * Read a value that may be quoted. Returns the unquoted text and where it ends.
+ */
+function readValue(input: string, start: number): { value: string; end: number; unterminated: boolean } {
+  if (input[start] === '"') {
+    const close = input.indexOf('"', start + 1);
+    if (close === -1) {
+      return { value: input.slice(start + 1), end: input.length, unterminated: true };
+    }
+    return { value: input.slice(start + 1, close), end: close + 1, unterminated: false };
+  }
+
+  let end = start;
+  while (end < input.length && !isWhitespace(input[end])) end++;
+  return { value: input.slice(start, end), end, unterminated: false };
+}
+
+function parseNumber(text: string): number | null {
+  if (!/^\d+$/.test(text)) return null;
+  return parseInt(text, 10);
+}
+
+/**
+ * Parse `>20`, `>=20`, `<5`, `<=5`, `=3`, `3`, `1..3`, `10..` or `..3`
+ */
+export function parseNumericComparison(text: string): NumericComparison | null {
+  const range = text.match(/^(\d*)\.\.(\d*)$/);
+  if (range) {
+    if (!range[1] && !range[2]) return null;
+    const min = range[1] ? parseInt(range[1], 10) : 0;
+    const max = range[2] ? parseInt(range[2], 10) : Infinity;
+    return min <= max ? { op: 'range', min, max } : null;
+  }
+
+  const comparison = text.match(/^(>=|<=|>|<|=)?(.*)$/);
+  const value = comparison ? parseNumber(comparison[2]) : null;
+  if (!comparison || value === null) return null;
+
+  return { op: (comparison[1] || '=') as '>' | '>=' | '<' | '<=' | '=', value };
+}
+
+/**
+ * Tokenize and parse the search box into a list of AND-ed nodes.
+ * Parsing never throws: problems are collected in `errors` and the offending
+ * token is left out, so the rest of the query still applies.
+ */
+export function parseSearchQuery(input: string): SearchQuery {
+  const nodes: QueryNode[] = [];
+  const errors: QueryError[] = [];
+  let position = 0;
+
+  while (position < input.length) {
+    if (isWhitespace(input[position])) {
+      position++;
+      continue;
+    }
+
+    const start = position;
+    let negated = false;
+    if (input[position] === '-' && position + 1 < input.length && !isWhitespace(input[position + 1])) {
+      negated = true;
+      position++;
+    }
+
+    // "exact phrase"
+    if (input[position] === '"') {
+      const { value, end, unterminated } = readValue(input, position);
+      position = end;
+      if (unterminated) {
+        errors.push({ message: 'Missing closing quote', start, end });
+      }
+      if (value.trim()) {
+        nodes.push({ type: 'phrase', value: value.trim().toLowerCase(), negated, start, end });
+      }
+      continue;
+    }
+
+    // field:value; anything else with a colon (a URL, a time) is a bare word
+    const fieldMatch = input.slice(position).match(/^([a-zA-Z]+):/);
+    const fieldName = fieldMatch?.[1].toLowerCase();
+    if (fieldMatch && fieldName && (TEXT_FIELDS[fieldName] || NUMERIC_FIELDS[fieldName])) {
+      const valueStart = position + fieldMatch[0].length;
+      const { value, end, unterminated } = readValue(input, valueStart);
+      position = end;
+
+      if (unterminated) {
+        errors.push({ message: 'Missing closing quote', start, end });
+      }
+
+      if (!value.trim()) {
+        errors.push({ message: `Missing value for ${fieldName}:`, start, end });
+        continue;
+      }
+
+      const textField = TEXT_FIELDS[fieldName];
+      if (textField) {
+        nodes.push({ type: 'text-field', field: textField, value: value.trim().toLowerCase(), negated, start, end });
+        continue;
+      }
+
+      const numericField = NUMERIC_FIELDS[fieldName];
+      if (numericField) {
+        const comparison = parseNumericComparison(value);
+        if (comparison) {
+          nodes.push({ type: 'numeric-field', field: numericField, comparison, negated, start, end });
+        } else {
+          errors.push({
+            message: `Invalid number for ${fieldName}: "${value}" (try ${fieldName}:>20 or ${fieldName}:1..3)`,
+            start,
+            end,
+          });
+        }
+      }
+      continue;
+    }
+
+    // bare word
+    const { value, end } = readValue(input, position);
+    position = end;
+    nodes.push({ type: 'term', value: value.toLowerCase(), negated, start, end });
+  }
+
+  return { nodes, errors };
+}
+
+/**
+ * Fields of a project the query is evaluated against, pre-normalized to lower case
+ */
+export interface QueryDocument {
+  normalizedName: string;
+  normalizedDescription: string;
+  normalizedCountry: string;
+  normalizedTracks: string[];
+  // The user's private note and tag names on the project
+  normalizedNote: string;
+  normalizedTags: string[];
+  likes: number;
+  comments: number;
+  teamSize: number;
+}
+
+function compareNumber(value: number, comparison: NumericComparison): boolean {
+  switch (comparison.op) {
+    case '>': return value > comparison.value;
+    case '>=': return value >= comparison.value;
+    case '<': return value < comparison.value;
+    case '<=': return value <= comparison.value;
+    case '=': return value === comparison.value;
+    case 'range': return value >= comparison.min && value <= comparison.max;
+  }
+}
+
+function matchesTextField(field: TextField, value: string, document: QueryDocument): boolean {
+  switch (field) {
+    case 'name': return document.normalizedName.includes(value);
+    case 'description': return document.normalizedDescription.includes(value);
+    case 'country': return document.normalizedCountry.includes(value);
+    case 'track': return document.normalizedTracks.some(track => track.includes(value));
+    case 'note': return document.normalizedNote.includes(value);
+    case 'tag': return document.normalizedTags.some(tag => tag.includes(value));
+  }
+}
+
+function matchesNode(node: QueryNode, document: QueryDocument): boolean {
+  switch (node.type) {
+    case 'term':
+    case 'phrase':
+      return document.normalizedName.includes(node.value) ||
+        document.normalizedDescription.includes(node.value) ||
+        document.normalizedNote.includes(node.value);
+    case 'text-field':
+      return matchesTextField(node.field, node.value, document);
+    case 'numeric-field': {
+      const value = node.field === 'likes' ? document.likes
+        : node.field === 'comments' ? document.comments
+        : document.teamSize;
+      return compareNumber(value, node.comparison);
+    }
+  }
+}
+
+/**
+ * Structured constraints: every field, phrase and negation must hold.
+ * Plain positive terms are left to relevance scoring.
+ */
+export function matchesQuery(query: SearchQuery, document: QueryDocument): boolean {
+  return query.nodes.every(node => {
+    if (node.type === 'term' && !node.negated) return true;
+    return matchesNode(node, document) !== node.negated;
+  });
+}
+
+/**
+ * Positive bare words, the part of the query that is ranked rather than filtered
+ */
+export function getFreeTextTerms(query: SearchQuery): string[] {
+  return query.nodes
+    .filter((node): node is TermNode => node.type === 'term' && !node.negated)
+    .map(node => node.value);
+}
+
+/**
+ * True when the query has anything beyond free text
+ */
+export function hasStructuredTerms(query: SearchQuery): boolean {
+  return query.nodes.some(node => node.type !== 'term' || node.negated);
+}
+
+/**
+ * Substrings the query requires in visible text (phrases, name: and description:)
+ */
+export function getHighlightPhrases(query: SearchQuery): string[] {
+  return query.nodes.flatMap(node => {
+    if (node.negated) return [];
+    if (node.type === 'phrase') return [node.value];
+    if (node.type === 'text-field' && (node.field === 'name' || node.field === 'description')) return [node.value];
+    return [];
+  });
+}
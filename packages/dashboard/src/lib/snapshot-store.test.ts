@@ -0,0 +1,124 @@
+import { readFileSync } from 'fs';
+import initSqlJs, { Database, SqlValue } from 'sql.js';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { Project } from '@/types/project';
+import {
+  MemorySnapshotStore,
+  SnapshotStore,
+  SqlDatabase,
+  SqlSnapshotStore,
+  SqlStatement,
+} from '@/lib/snapshot-store';
+
+const HOUR = 60 * 60 * 1000;
+
+function project(id: number, likes: number, comments: number = 0): Project {
+  return { id, likes, comments } as Project;
+}
+
+// The D1 client shape over an in-process SQLite build
+function sqlJsDatabase(db: Database): SqlDatabase {
+  const statement = (query: string, values: unknown[] = []): SqlStatement => ({
+    bind: (...next: unknown[]) => statement(query, next),
+    async all<T>() {
+      const prepared = db.prepare(query);
+      prepared.bind(values as SqlValue[]);
+      const results: T[] = [];
+      while (prepared.step()) {
+        results.push(prepared.getAsObject() as T);
+      }
+      prepared.free();
+      return { results };
+    },
+    async run() {
+      db.run(query, values as SqlValue[]);
+    },
+  });
+
+  return {
+    prepare: query => statement(query),
+    batch: statements => Promise.all(statements.map(item => item.run())),
+  };
+}
+
+let SQL: Awaited<ReturnType<typeof initSqlJs>>;
+
+beforeAll(async () => {
+  SQL = await initSqlJs();
+});
+
+const stores: [string, () => SnapshotStore][] = [
+  ['MemorySnapshotStore', () => new MemorySnapshotStore()],
+  ['SqlSnapshotStore', () => new SqlSnapshotStore(sqlJsDatabase(new SQL.Database()))],
+];
+
+describe.each(stores)('%s', (_, createStore) => {
+  it('returns a project\'s history oldest first, within the window and limit', async () => {
+    const store = createStore();
+    const start = Date.now() - 10 * HOUR;
+    for (let i = 0; i < 5; i++) {
+      await store.recordSnapshot('4', [project(1, i * 10, i), project(2, 100)], new Date(start + i * HOUR));
+    }
+
+    const all = await store.getProjectHistory(1);
+    expect(all.map(snapshot => snapshot.likes)).toEqual([0, 10, 20, 30, 40]);
+    expect(all[0]).toMatchObject({ projectId: 1, hackathonId: '4', comments: 0 });
+
+    const recent = await store.getProjectHistory(1, { since: new Date(start + 2 * HOUR) });
+    expect(recent.map(snapshot => snapshot.likes)).toEqual([20, 30, 40]);
+
+    const limited = await store.getProjectHistory(1, { limit: 2 });
+    expect(limited.map(snapshot => snapshot.likes)).toEqual([30, 40]);
+
+    expect(await store.getProjectHistory(3)).toEqual([]);
+  });
+
+  it('computes momentum for one hackathon within the window', async () => {
+    const store = createStore();
+    const since = new Date(Date.now() - 12 * HOUR);
+    const at = (hours: number) => new Date(since.getTime() + hours * HOUR);
+
+    // Before the window, so ignored
+    await store.recordSnapshot('4', [project(1, 0, 0)], at(-1));
+    await store.recordSnapshot('4', [project(1, 1, 0)], at(1.5));
+    await store.recordSnapshot('4', [project(1, 5, 2)], at(6.5));
+    await store.recordSnapshot('4', [project(1, 9, 3)], at(11.5));
+    // Another hackathon
+    await store.recordSnapshot('5', [project(7, 50)], at(2.5));
+
+    const momentum = await store.getMomentum('4', since, 12);
+    expect(momentum).toHaveLength(1);
+    expect(momentum[0]).toMatchObject({ projectId: 1, likesGained: 8, commentsGained: 3 });
+    // Empty buckets carry the previous value forward
+    expect(momentum[0].likesSeries).toEqual([1, 1, 1, 1, 1, 1, 5, 5, 5, 5, 5, 9]);
+    expect(momentum[0].commentsSeries).toEqual([0, 0, 0, 0, 0, 0, 2, 2, 2, 2, 2, 3]);
+  });
+
+  it('records nothing for an empty batch', async () => {
+    const store = createStore();
+    await store.recordSnapshot('4', []);
+    expect(await store.getMomentum('4', new Date(0))).toEqual([]);
+  });
+});
+
+describe('MemorySnapshotStore', () => {
+  it('keeps only the newest snapshots per project', async () => {
+    const store = new MemorySnapshotStore(3);
+    for (let likes = 1; likes <= 5; likes++) {
+      await store.recordSnapshot('4', [project(1, likes)], new Date(Date.now() - (10 - likes) * HOUR));
+    }
+    const history = await store.getProjectHistory(1);
+    expect(history.map(snapshot => snapshot.likes)).toEqual([3, 4, 5]);
+  });
+});
+
+describe('SqlSnapshotStore', () => {
+  it('works on a database created by the D1 migration', async () => {
+    const db = new SQL.Database();
+    db.exec(readFileSync(new URL('../../migrations/0001_create_project_metrics.sql', import.meta.url), 'utf8'));
+    const store = new SqlSnapshotStore(sqlJsDatabase(db));
+
+    await store.recordSnapshot('4', [project(1, 3, 1)]);
+    expect(await store.getProjectHistory(1)).toMatchObject([{ projectId: 1, likes: 3, comments: 1 }]);
+  });
+});
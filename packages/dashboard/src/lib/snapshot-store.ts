@@ -0,0 +1,360 @@
+import { NextResponse } from 'next/server';
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+import { Project } from '@/types/project';
+import { MetricSnapshot, ProjectMomentum } from '@/types/snapshot';
+import { MOMENTUM_BUCKETS } from '@/lib/momentum';
+import { getSecurityHeaders } from '@/lib/validation';
+
+/**
+ * Minimal subset of the D1 client API. Any SQLite driver exposing the same
+ * prepare/bind/all/run shape can back the snapshot store.
+ */
+export interface SqlStatement {
+  bind(...values: unknown[]): SqlStatement;
+  all<T = Record<string, unknown>>(): Promise<{ results: T[] }>;
+  run(): Promise<unknown>;
+}
+
+export interface SqlDatabase {
+  prepare(query: string): SqlStatement;
+  batch(statements: SqlStatement[]): Promise<unknown[]>;
+}
+
+export interface HistoryOptions {
+  since?: Date;
+  limit?: number;
+}
+
+/**
+ * Storage for likes/comments snapshots taken on each upstream fetch
+ */
+export interface SnapshotStore {
+  recordSnapshot(hackathonId: string, projects: Project[], recordedAt?: Date): Promise<void>;
+  getProjectHistory(projectId: number, options?: HistoryOptions): Promise<MetricSnapshot[]>;
+  getMomentum(hackathonId: string, since: Date, buckets?: number): Promise<ProjectMomentum[]>;
+}
+
+export const DEFAULT_HISTORY_LIMIT = 500;
+
+// Same table layout as the CLI's project_metrics, plus the hackathon it belongs to.
+// Deployed D1 databases get it from migrations/0001_create_project_metrics.sql;
+// this keeps other SQLite drivers (and unmigrated local databases) working.
+const SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS project_metrics (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    hackathon_id TEXT NOT NULL,
+    project_id INTEGER NOT NULL,
+    likes INTEGER DEFAULT 0,
+    comments INTEGER DEFAULT 0,
+    recorded_at TEXT NOT NULL
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_metrics_project_date
+    ON project_metrics (project_id, recorded_at)`,
+  `CREATE INDEX IF NOT EXISTS idx_metrics_hackathon_date
+    ON project_metrics (hackathon_id, recorded_at)`,
+];
+
+interface MetricRow {
+  hackathon_id: string;
+  project_id: number;
+  likes: number;
+  comments: number;
+  recorded_at: string;
+}
+
+function toSnapshot(row: MetricRow): MetricSnapshot {
+  return {
+    projectId: row.project_id,
+    hackathonId: row.hackathon_id,
+    likes: row.likes,
+    comments: row.comments,
+    recordedAt: row.recorded_at,
+  };
+}
+
+interface BucketRow {
+  project_id: number;
+  bucket: number;
+  min_likes: number;
+  max_likes: number;
+  min_comments: number;
+  max_comments: number;
+}
+
+/**
+ * Turn per-bucket min/max rows into gains and fixed-length sparkline series.
+ * Empty buckets carry the previous value forward.
+ */
+function aggregateMomentum(rows: BucketRow[], buckets: number): ProjectMomentum[] {
+  const byProject = new Map<number, BucketRow[]>();
+  for (const row of rows) {
+    const projectRows = byProject.get(row.project_id) || [];
+    projectRows.push(row);
+    byProject.set(row.project_id, projectRows);
+  }
+
+  const momentum: ProjectMomentum[] = [];
+  byProject.forEach((projectRows, projectId) => {
+    projectRows.sort((a, b) => a.bucket - b.bucket);
+    const first = projectRows[0];
+    const last = projectRows[projectRows.length - 1];
+
+    const likesSeries: number[] = [];
+    const commentsSeries: number[] = [];
+    let cursor = 0;
+    let likes = first.min_likes;
+    let comments = first.min_comments;
+    for (let bucket = 0; bucket < buckets; bucket++) {
+      while (cursor < projectRows.length && projectRows[cursor].bucket <= bucket) {
+        likes = projectRows[cursor].max_likes;
+        comments = projectRows[cursor].max_comments;
+        cursor++;
+      }
+      likesSeries.push(likes);
+      commentsSeries.push(comments);
+    }
+
+    momentum.push({
+      projectId,
+      likesGained: last.max_likes - first.min_likes,
+      commentsGained: last.max_comments - first.min_comments,
+      likesSeries,
+      commentsSeries,
+    });
+  });
+
+  return momentum;
+}
+
+function bucketWidth(since: Date, buckets: number): number {
+  return Math.max(1, Math.ceil((Date.now() - since.getTime()) / buckets));
+}
+
+/**
+ * SQLite/D1-backed store
+ */
+export class SqlSnapshotStore implements SnapshotStore {
+  private schemaReady: Promise<void> | null = null;
+
+  constructor(private db: SqlDatabase) {}
+
+  private ensureSchema(): Promise<void> {
+    if (!this.schemaReady) {
+      this.schemaReady = this.db
+        .batch(SCHEMA.map(statement => this.db.prepare(statement)))
+        .then(() => undefined)
+        .catch(error => {
+          // Allow the next call to retry
+          this.schemaReady = null;
+          throw error;
+        });
+    }
+    return this.schemaReady;
+  }
+
+  async recordSnapshot(hackathonId: string, projects: Project[], recordedAt: Date = new Date()): Promise<void> {
+    if (projects.length === 0) return;
+    await this.ensureSchema();
+
+    // One statement for the whole batch keeps us well under D1's per-invocation query limit
+    const rows = projects.map(project => ({
+      id: project.id,
+      likes: project.likes || 0,
+      comments: project.comments || 0,
+    }));
+
+    await this.db
+      .prepare(
+        `INSERT INTO project_metrics (hackathon_id, project_id, likes, comments, recorded_at)
+         SELECT ?, json_extract(value, '$.id'), json_extract(value, '$.likes'), json_extract(value, '$.comments'), ?
+         FROM json_each(?)`
+      )
+      .bind(hackathonId, recordedAt.toISOString(), JSON.stringify(rows))
+      .run();
+  }
+
+  async getProjectHistory(projectId: number, options: HistoryOptions = {}): Promise<MetricSnapshot[]> {
+    await this.ensureSchema();
+
+    const since = (options.since || new Date(0)).toISOString();
+    const limit = options.limit || DEFAULT_HISTORY_LIMIT;
+
+    // Newest N within the window, returned oldest first
+    const { results } = await this.db
+      .prepare(
+        `SELECT * FROM (
+           SELECT hackathon_id, project_id, likes, comments, recorded_at
+           FROM project_metrics
+           WHERE project_id = ? AND recorded_at >= ?
+           ORDER BY recorded_at DESC
+           LIMIT ?
+         ) ORDER BY recorded_at ASC`
+      )
+      .bind(projectId, since, limit)
+      .all<MetricRow>();
+
+    return results.map(toSnapshot);
+  }
+
+  async getMomentum(hackathonId: string, since: Date, buckets: number = MOMENTUM_BUCKETS): Promise<ProjectMomentum[]> {
+    await this.ensureSchema();
+
+    const width = bucketWidth(since, buckets);
+
+    // Bucketing in SQL keeps the result at most projects x buckets rows, however often we sample
+    const { results } = await this.db
+      .prepare(
+        `SELECT
+           project_id,
+           MIN(CAST((julianday(recorded_at) - julianday(?)) * 86400000 / ? AS INTEGER), ?) AS bucket,
+           MIN(likes) AS min_likes,
+           MAX(likes) AS max_likes,
+           MIN(comments) AS min_comments,
+           MAX(comments) AS max_comments
+         FROM project_metrics
+         WHERE hackathon_id = ? AND recorded_at >= ?
+         GROUP BY project_id, bucket`
+      )
+      .bind(since.toISOString(), width, buckets - 1, hackathonId, since.toISOString())
+      .all<BucketRow>();
+
+    return aggregateMomentum(results, buckets);
+  }
+}
+
+/**
+ * Process-local store used in development, in tests and when no database is bound
+ */
+export class MemorySnapshotStore implements SnapshotStore {
+  private snapshots = new Map<number, MetricSnapshot[]>();
+
+  constructor(private maxSnapshotsPerProject: number = DEFAULT_HISTORY_LIMIT) {}
+
+  async recordSnapshot(hackathonId: string, projects: Project[], recordedAt: Date = new Date()): Promise<void> {
+    const timestamp = recordedAt.toISOString();
+
+    for (const project of projects) {
+      const history = this.snapshots.get(project.id) || [];
+      history.push({
+        projectId: project.id,
+        hackathonId,
+        likes: project.likes || 0,
+        comments: project.comments || 0,
+        recordedAt: timestamp,
+      });
+
+      if (history.length > this.maxSnapshotsPerProject) {
+        history.splice(0, history.length - this.maxSnapshotsPerProject);
+      }
+      this.snapshots.set(project.id, history);
+    }
+  }
+
+  async getProjectHistory(projectId: number, options: HistoryOptions = {}): Promise<MetricSnapshot[]> {
+    const since = options.since ? options.since.toISOString() : '';
+    const limit = options.limit || DEFAULT_HISTORY_LIMIT;
+
+    return (this.snapshots.get(projectId) || [])
+      .filter(snapshot => snapshot.recordedAt >= since)
+      .slice(-limit);
+  }
+
+  async getMomentum(hackathonId: string, since: Date, buckets: number = MOMENTUM_BUCKETS): Promise<ProjectMomentum[]> {
+    const sinceIso = since.toISOString();
+    const width = bucketWidth(since, buckets);
+    const rows = new Map<string, BucketRow>();
+
+    this.snapshots.forEach(history => {
+      for (const snapshot of history) {
+        if (snapshot.hackathonId !== hackathonId || snapshot.recordedAt < sinceIso) continue;
+
+        const bucket = Math.min(
+          Math.floor((new Date(snapshot.recordedAt).getTime() - since.getTime()) / width),
+          buckets - 1
+        );
+        const key = `${snapshot.projectId}:${bucket}`;
+        const row = rows.get(key);
+        if (row) {
+          row.min_likes = Math.min(row.min_likes, snapshot.likes);
+          row.max_likes = Math.max(row.max_likes, snapshot.likes);
+          row.min_comments = Math.min(row.min_comments, snapshot.comments);
+          row.max_comments = Math.max(row.max_comments, snapshot.comments);
+        } else {
+          rows.set(key, {
+            project_id: snapshot.projectId,
+            bucket,
+            min_likes: snapshot.likes,
+            max_likes: snapshot.likes,
+            min_comments: snapshot.comments,
+            max_comments: snapshot.comments,
+          });
+        }
+      }
+    });
+
+    return aggregateMomentum(Array.from(rows.values()), buckets);
+  }
+}
+
+const memoryStore = new MemorySnapshotStore();
+// Reuse stores per binding so the schema check runs once per isolate
+const sqlStores = new WeakMap<SqlDatabase, SqlSnapshotStore>();
+
+// The D1 binding is optional (see the README), so it isn't in the generated CloudflareEnv
+type SnapshotEnv = CloudflareEnv & { SNAPSHOTS_DB?: SqlDatabase };
+
+function getCloudflareEnv(): SnapshotEnv | null {
+  try {
+    return getCloudflareContext().env;
+  } catch {
+    // Not running inside the Cloudflare adapter (e.g. plain `next dev`)
+    return null;
+  }
+}
+
+/**
+ * Resolve the snapshot store for the current request
+ */
+export function getSnapshotStore(): SnapshotStore {
+  const db = getCloudflareEnv()?.SNAPSHOTS_DB;
+  if (!db) return memoryStore;
+
+  let store = sqlStores.get(db);
+  if (!store) {
+    store = new SqlSnapshotStore(db);
+    sqlStores.set(db, store);
+  }
+  return store;
+}
+
+/**
+ * 500 response for a failed store read. A store outage shouldn't be cached
+ * by the CDN or browser, so it is sent with `no-store`.
+ */
+export function snapshotStoreErrorResponse(error: string): NextResponse {
+  return NextResponse.json(
+    { error },
+    {
+      status: 500,
+      headers: {
+        ...getSecurityHeaders(),
+        'Cache-Control': 'no-store',
+      }
+    }
+  );
+}
+
+/**
+ * Keep a task alive after the response has been sent
+ */
+export function runInBackground(task: Promise<unknown>): void {
+  const guarded = task.catch(error => {
+    console.error('Background task failed:', error);
+  });
+
+  try {
+    getCloudflareContext().ctx.waitUntil(guarded);
+  } catch {
+    // Outside Cloudflare the Node process outlives the response anyway
+  }
+}
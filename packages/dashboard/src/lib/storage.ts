@@ -1,30 +1,283 @@
 import { Project } from '@/types/project';
+import { SeenBaseline } from '@/types/diff';
+import { SavedView } from '@/types/saved-view';
+import { validateSavedViews } from '@/lib/saved-views';
+import { ColumnLayout, normalizeColumnLayout } from '@/lib/table-columns';
+import { Annotations } from '@/types/annotation';
+import { EMPTY_ANNOTATIONS, validateAnnotations } from '@/lib/annotations';
+import { ScoringState } from '@/types/rubric';
+import { DEFAULT_SCORING_STATE, validateScoringState } from '@/lib/rubric';
+import { CsvExportOptions, normalizeCsvExportOptions } from '@/lib/csv-export';
 
-const STORAGE_KEY = 'colosseum_projects';
-const LAST_FETCH_KEY = 'colosseum_last_fetch';
+/**
+ * Client-side project cache.
+ *
+ * Projects live in IndexedDB as one record per project (keyed by hackathon + id),
+ * with a small metadata store for things like the last fetch time. When IndexedDB
+ * isn't available (private mode, old browsers, SSR) everything falls back to memory.
+ */
 
-export function saveProjects(projects: Project[]): void {
+const DB_NAME = 'colosseum_dashboard';
+const DB_VERSION = 1;
+const PROJECTS_STORE = 'projects';
+const METADATA_STORE = 'metadata';
+const HACKATHON_INDEX = 'hackathonId';
+
+const SELECTED_HACKATHON_KEY = 'colosseum_selected_hackathon';
+export const WATCHLIST_KEY = 'colosseum_watchlist';
+export const SAVED_VIEWS_KEY = 'colosseum_saved_views';
+export const COLUMN_LAYOUT_KEY = 'colosseum_column_layout';
+export const ANNOTATIONS_KEY = 'colosseum_annotations';
+export const SCORING_KEY = 'colosseum_scoring';
+export const CSV_EXPORT_KEY = 'colosseum_csv_export';
+
+// localStorage keys from before the IndexedDB cache, imported once by the first migration
+const LEGACY_PROJECTS_KEY = 'colosseum_projects';
+const LEGACY_LAST_FETCH_KEY = 'colosseum_last_fetch';
+const LEGACY_SEEN_BASELINE_KEY = 'colosseum_seen_baseline';
+const LEGACY_DEFAULT_HACKATHON_ID = '4';
+
+const lastFetchKey = (hackathonId: string) => `lastFetch:${hackathonId}`;
+const seenBaselineKey = (hackathonId: string) => `seenBaseline:${hackathonId}`;
+
+interface ProjectRecord {
+  hackathonId: string;
+  id: number;
+  project: Project;
+}
+
+interface MetadataRecord {
+  key: string;
+  value: unknown;
+}
+
+interface CacheBackend {
+  getProjects(hackathonId: string): Promise<Project[]>;
+  replaceProjects(hackathonId: string, projects: Project[], metadata: MetadataRecord[]): Promise<void>;
+  deleteProjects(hackathonId: string, metadataKeys: string[]): Promise<void>;
+  getMetadata<T>(key: string): Promise<T | null>;
+  setMetadata(key: string, value: unknown): Promise<void>;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('Transaction aborted'));
+  });
+}
+
+const hackathonRange = (hackathonId: string) =>
+  IDBKeyRange.bound([hackathonId, -Infinity], [hackathonId, Infinity]);
+
+/**
+ * Copy localStorage caches written by earlier versions into the new stores.
+ * The old keys are only removed once the upgrade has committed, so an aborted
+ * upgrade leaves them to be imported next time.
+ */
+function importLegacyLocalStorage(transaction: IDBTransaction): void {
+  if (typeof localStorage === 'undefined') return;
+
+  const projectsStore = transaction.objectStore(PROJECTS_STORE);
+  const metadataStore = transaction.objectStore(METADATA_STORE);
+  const legacyKeys: string[] = [];
+
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key && [LEGACY_PROJECTS_KEY, LEGACY_LAST_FETCH_KEY, LEGACY_SEEN_BASELINE_KEY].some(prefix => key.startsWith(prefix))) {
+      legacyKeys.push(key);
+    }
+  }
+
+  for (const key of legacyKeys) {
+    try {
+      const raw = localStorage.getItem(key);
+      const hackathonId = key.match(/_(\d+)$/)?.[1] || LEGACY_DEFAULT_HACKATHON_ID;
+
+      if (raw && key.startsWith(LEGACY_PROJECTS_KEY)) {
+        const projects: Project[] = JSON.parse(raw);
+        if (Array.isArray(projects)) {
+          projects.forEach(project => {
+            projectsStore.put({ hackathonId, id: project.id, project } satisfies ProjectRecord);
+          });
+        }
+      } else if (raw && key.startsWith(LEGACY_LAST_FETCH_KEY)) {
+        metadataStore.put({ key: lastFetchKey(hackathonId), value: raw } satisfies MetadataRecord);
+      } else if (raw && key.startsWith(LEGACY_SEEN_BASELINE_KEY)) {
+        metadataStore.put({ key: seenBaselineKey(hackathonId), value: JSON.parse(raw) } satisfies MetadataRecord);
+      }
+    } catch (error) {
+      console.error(`Failed to migrate legacy cache entry ${key}:`, error);
+    }
+  }
+
+  transaction.addEventListener('complete', () => {
+    legacyKeys.forEach(key => localStorage.removeItem(key));
+  });
+}
+
+/**
+ * Schema migrations, keyed by the version they upgrade to.
+ * Add an entry and bump DB_VERSION to change the schema.
+ */
+const MIGRATIONS: Record<number, (db: IDBDatabase, transaction: IDBTransaction) => void> = {
+  1: (db, transaction) => {
+    const projectsStore = db.createObjectStore(PROJECTS_STORE, { keyPath: ['hackathonId', 'id'] });
+    projectsStore.createIndex(HACKATHON_INDEX, 'hackathonId');
+    db.createObjectStore(METADATA_STORE, { keyPath: 'key' });
+    importLegacyLocalStorage(transaction);
+  },
+};
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const transaction = request.transaction!;
+      for (let version = event.oldVersion + 1; version <= DB_VERSION; version++) {
+        MIGRATIONS[version]?.(request.result, transaction);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    // The request stays pending and succeeds once the other tabs have closed their connection
+    request.onblocked = () => console.warn('IndexedDB upgrade waiting for other tabs to close the database');
+  });
+}
+
+class IndexedDbBackend implements CacheBackend {
+  constructor(private db: IDBDatabase) {}
+
+  async getProjects(hackathonId: string): Promise<Project[]> {
+    const transaction = this.db.transaction(PROJECTS_STORE, 'readonly');
+    const records = await requestToPromise<ProjectRecord[]>(
+      transaction.objectStore(PROJECTS_STORE).index(HACKATHON_INDEX).getAll(hackathonId)
+    );
+    return records.map(record => record.project);
+  }
+
+  async replaceProjects(hackathonId: string, projects: Project[], metadata: MetadataRecord[]): Promise<void> {
+    const transaction = this.db.transaction([PROJECTS_STORE, METADATA_STORE], 'readwrite');
+    const projectsStore = transaction.objectStore(PROJECTS_STORE);
+    const metadataStore = transaction.objectStore(METADATA_STORE);
+
+    projectsStore.delete(hackathonRange(hackathonId));
+    projects.forEach(project => {
+      projectsStore.put({ hackathonId, id: project.id, project } satisfies ProjectRecord);
+    });
+    metadata.forEach(record => metadataStore.put(record));
+
+    await transactionDone(transaction);
+  }
+
+  async deleteProjects(hackathonId: string, metadataKeys: string[]): Promise<void> {
+    const transaction = this.db.transaction([PROJECTS_STORE, METADATA_STORE], 'readwrite');
+    transaction.objectStore(PROJECTS_STORE).delete(hackathonRange(hackathonId));
+    metadataKeys.forEach(key => transaction.objectStore(METADATA_STORE).delete(key));
+    await transactionDone(transaction);
+  }
+
+  async getMetadata<T>(key: string): Promise<T | null> {
+    const transaction = this.db.transaction(METADATA_STORE, 'readonly');
+    const record = await requestToPromise<MetadataRecord | undefined>(
+      transaction.objectStore(METADATA_STORE).get(key)
+    );
+    return record ? (record.value as T) : null;
+  }
+
+  async setMetadata(key: string, value: unknown): Promise<void> {
+    const transaction = this.db.transaction(METADATA_STORE, 'readwrite');
+    transaction.objectStore(METADATA_STORE).put({ key, value } satisfies MetadataRecord);
+    await transactionDone(transaction);
+  }
+}
+
+class MemoryBackend implements CacheBackend {
+  private projects = new Map<string, Project[]>();
+  private metadata = new Map<string, unknown>();
+
+  async getProjects(hackathonId: string): Promise<Project[]> {
+    return this.projects.get(hackathonId) || [];
+  }
+
+  async replaceProjects(hackathonId: string, projects: Project[], metadata: MetadataRecord[]): Promise<void> {
+    this.projects.set(hackathonId, projects);
+    metadata.forEach(record => this.metadata.set(record.key, record.value));
+  }
+
+  async deleteProjects(hackathonId: string, metadataKeys: string[]): Promise<void> {
+    this.projects.delete(hackathonId);
+    metadataKeys.forEach(key => this.metadata.delete(key));
+  }
+
+  async getMetadata<T>(key: string): Promise<T | null> {
+    return this.metadata.has(key) ? (this.metadata.get(key) as T) : null;
+  }
+
+  async setMetadata(key: string, value: unknown): Promise<void> {
+    this.metadata.set(key, value);
+  }
+}
+
+let backendPromise: Promise<CacheBackend> | null = null;
+
+function getBackend(): Promise<CacheBackend> {
+  if (!backendPromise) {
+    backendPromise = (async () => {
+      if (typeof indexedDB === 'undefined') {
+        return new MemoryBackend();
+      }
+      try {
+        const db = await openDatabase();
+        // Let a newer version in another tab upgrade the schema; the next
+        // access from this tab opens the database again
+        db.onversionchange = () => {
+          db.close();
+          backendPromise = null;
+        };
+        return new IndexedDbBackend(db);
+      } catch (error) {
+        console.error('IndexedDB unavailable, caching projects in memory:', error);
+        return new MemoryBackend();
+      }
+    })();
+  }
+  return backendPromise;
+}
+
+export async function saveProjects(projects: Project[], hackathonId: string): Promise<void> {
   try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(projects));
-    localStorage.setItem(LAST_FETCH_KEY, new Date().toISOString());
+    const backend = await getBackend();
+    await backend.replaceProjects(hackathonId, projects, [
+      { key: lastFetchKey(hackathonId), value: new Date().toISOString() },
+    ]);
   } catch (error) {
-    console.error('Failed to save projects to localStorage:', error);
+    console.error('Failed to save projects to IndexedDB:', error);
   }
 }
 
-export function loadProjects(): Project[] {
+export async function loadProjects(hackathonId: string): Promise<Project[]> {
   try {
-    const data = localStorage.getItem(STORAGE_KEY);
-    return data ? JSON.parse(data) : [];
+    const backend = await getBackend();
+    return await backend.getProjects(hackathonId);
   } catch (error) {
-    console.error('Failed to load projects from localStorage:', error);
+    console.error('Failed to load projects from IndexedDB:', error);
     return [];
   }
 }
 
-export function getLastFetchTime(): Date | null {
+export async function getLastFetchTime(hackathonId: string): Promise<Date | null> {
   try {
-    const timestamp = localStorage.getItem(LAST_FETCH_KEY);
+    const backend = await getBackend();
+    const timestamp = await backend.getMetadata<string>(lastFetchKey(hackathonId));
     return timestamp ? new Date(timestamp) : null;
   } catch (error) {
     console.error('Failed to get last fetch time:', error);
@@ -32,11 +285,159 @@ export function getLastFetchTime(): Date | null {
   }
 }
 
-export function clearProjects(): void {
+export async function clearProjects(hackathonId: string): Promise<void> {
+  try {
+    const backend = await getBackend();
+    await backend.deleteProjects(hackathonId, [lastFetchKey(hackathonId)]);
+  } catch (error) {
+    console.error('Failed to clear projects from IndexedDB:', error);
+  }
+}
+
+export async function saveSeenBaseline(baseline: SeenBaseline, hackathonId: string): Promise<void> {
   try {
-    localStorage.removeItem(STORAGE_KEY);
-    localStorage.removeItem(LAST_FETCH_KEY);
+    const backend = await getBackend();
+    await backend.setMetadata(seenBaselineKey(hackathonId), baseline);
   } catch (error) {
-    console.error('Failed to clear projects from localStorage:', error);
+    console.error('Failed to save seen baseline:', error);
   }
-} 
\ No newline at end of file
+}
+
+export async function loadSeenBaseline(hackathonId: string): Promise<SeenBaseline | null> {
+  try {
+    const backend = await getBackend();
+    const baseline = await backend.getMetadata<SeenBaseline>(seenBaselineKey(hackathonId));
+    return baseline && Array.isArray(baseline.projects) ? baseline : null;
+  } catch (error) {
+    console.error('Failed to load seen baseline:', error);
+    return null;
+  }
+}
+
+// The selected hackathon is a tiny UI preference, so it stays in localStorage
+export function saveSelectedHackathon(hackathonId: string): void {
+  try {
+    localStorage.setItem(SELECTED_HACKATHON_KEY, hackathonId);
+  } catch (error) {
+    console.error('Failed to save selected hackathon:', error);
+  }
+}
+
+export function loadSelectedHackathon(): string | null {
+  try {
+    return localStorage.getItem(SELECTED_HACKATHON_KEY);
+  } catch (error) {
+    console.error('Failed to load selected hackathon:', error);
+    return null;
+  }
+}
+
+// The watchlist is just a list of project ids, so it lives in localStorage as well
+export function saveWatchlist(projectIds: number[]): void {
+  try {
+    localStorage.setItem(WATCHLIST_KEY, JSON.stringify(projectIds));
+  } catch (error) {
+    console.error('Failed to save watchlist:', error);
+  }
+}
+
+export function loadWatchlist(): number[] {
+  try {
+    const stored = localStorage.getItem(WATCHLIST_KEY);
+    const projectIds = stored ? JSON.parse(stored) : [];
+    return Array.isArray(projectIds) ? projectIds.filter(id => typeof id === 'number') : [];
+  } catch (error) {
+    console.error('Failed to load watchlist:', error);
+    return [];
+  }
+}
+
+export function saveSavedViews(views: SavedView[]): void {
+  try {
+    localStorage.setItem(SAVED_VIEWS_KEY, JSON.stringify(views));
+  } catch (error) {
+    console.error('Failed to save views:', error);
+  }
+}
+
+export function loadSavedViews(): SavedView[] {
+  try {
+    const stored = localStorage.getItem(SAVED_VIEWS_KEY);
+    return stored ? validateSavedViews(JSON.parse(stored)) : [];
+  } catch (error) {
+    console.error('Failed to load saved views:', error);
+    return [];
+  }
+}
+
+export function saveColumnLayout(layout: ColumnLayout): void {
+  try {
+    localStorage.setItem(COLUMN_LAYOUT_KEY, JSON.stringify(layout));
+  } catch (error) {
+    console.error('Failed to save column layout:', error);
+  }
+}
+
+export function loadColumnLayout(): ColumnLayout {
+  try {
+    const stored = localStorage.getItem(COLUMN_LAYOUT_KEY);
+    return normalizeColumnLayout(stored ? JSON.parse(stored) : null);
+  } catch (error) {
+    console.error('Failed to load column layout:', error);
+    return normalizeColumnLayout(null);
+  }
+}
+
+export function saveAnnotations(annotations: Annotations): void {
+  try {
+    localStorage.setItem(ANNOTATIONS_KEY, JSON.stringify(annotations));
+  } catch (error) {
+    console.error('Failed to save notes and tags:', error);
+  }
+}
+
+export function loadAnnotations(): Annotations {
+  try {
+    const stored = localStorage.getItem(ANNOTATIONS_KEY);
+    return stored ? validateAnnotations(JSON.parse(stored)) : EMPTY_ANNOTATIONS;
+  } catch (error) {
+    console.error('Failed to load notes and tags:', error);
+    return EMPTY_ANNOTATIONS;
+  }
+}
+
+export function saveScoring(state: ScoringState): void {
+  try {
+    localStorage.setItem(SCORING_KEY, JSON.stringify(state));
+  } catch (error) {
+    console.error('Failed to save rubric scores:', error);
+  }
+}
+
+export function loadScoring(): ScoringState {
+  try {
+    const stored = localStorage.getItem(SCORING_KEY);
+    return stored ? validateScoringState(JSON.parse(stored)) : DEFAULT_SCORING_STATE;
+  } catch (error) {
+    console.error('Failed to load rubric scores:', error);
+    return DEFAULT_SCORING_STATE;
+  }
+}
+
+export function saveCsvExportOptions(options: CsvExportOptions): void {
+  try {
+    localStorage.setItem(CSV_EXPORT_KEY, JSON.stringify(options));
+  } catch (error) {
+    console.error('Failed to save CSV export options:', error);
+  }
+}
+
+export function loadCsvExportOptions(): CsvExportOptions {
+  try {
+    const stored = localStorage.getItem(CSV_EXPORT_KEY);
+    return normalizeCsvExportOptions(stored ? JSON.parse(stored) : null);
+  } catch (error) {
+    console.error('Failed to load CSV export options:', error);
+    return normalizeCsvExportOptions(null);
+  }
+}
@@ -0,0 +1,130 @@
+import { FilterOptions } from '@/types/project';
+
+/**
+ * Projects table column registry. Rendering lives in ProjectsTable; this is
+ * the metadata the column chooser, resizing and the saved layout work from.
+ */
+
+export type ColumnId =
+  | 'select'
+  | 'rank'
+  | 'project'
+  | 'tags'
+  | 'description'
+  | 'tracks'
+  | 'country'
+  | 'likes'
+  | 'comments'
+  | 'momentum'
+  | 'team'
+  | 'submitted'
+  | 'university'
+  | 'twitter'
+  | 'engagement'
+  | 'score'
+  | 'members'
+  | 'links';
+
+export interface ColumnDefinition {
+  id: ColumnId;
+  label: string;
+  align: 'left' | 'center';
+  // Default and minimum widths in px
+  width: number;
+  minWidth: number;
+  sortKey?: FilterOptions['sortBy'];
+  defaultVisible: boolean;
+  // Can't be hidden (the project name opens the detail modal)
+  required?: boolean;
+  // Only shown while the table is in trending mode
+  trendingOnly?: boolean;
+}
+
+// In default order
+export const COLUMNS: ColumnDefinition[] = [
+  { id: 'select', label: 'Select', align: 'center', width: 40, minWidth: 36, defaultVisible: true },
+  { id: 'rank', label: '#', align: 'left', width: 50, minWidth: 40, defaultVisible: true },
+  { id: 'project', label: 'Project', align: 'left', width: 180, minWidth: 120, sortKey: 'name', defaultVisible: true, required: true },
+  { id: 'tags', label: 'Tags', align: 'left', width: 140, minWidth: 80, defaultVisible: true },
+  { id: 'description', label: 'Description', align: 'left', width: 350, minWidth: 120, defaultVisible: true },
+  { id: 'tracks', label: 'Tracks', align: 'center', width: 120, minWidth: 80, defaultVisible: true },
+  { id: 'country', label: 'Country', align: 'center', width: 100, minWidth: 70, sortKey: 'country', defaultVisible: true },
+  { id: 'likes', label: 'Likes', align: 'center', width: 80, minWidth: 60, sortKey: 'likes', defaultVisible: true },
+  { id: 'comments', label: 'Comments', align: 'center', width: 90, minWidth: 60, sortKey: 'comments', defaultVisible: true },
+  { id: 'momentum', label: 'Momentum', align: 'center', width: 110, minWidth: 80, sortKey: 'momentum', defaultVisible: true, trendingOnly: true },
+  { id: 'team', label: 'Team', align: 'center', width: 80, minWidth: 60, sortKey: 'teamSize', defaultVisible: true },
+  { id: 'submitted', label: 'Submitted', align: 'center', width: 100, minWidth: 80, sortKey: 'submittedAt', defaultVisible: true },
+  { id: 'university', label: 'University', align: 'left', width: 150, minWidth: 80, sortKey: 'university', defaultVisible: false },
+  { id: 'twitter', label: 'Twitter', align: 'left', width: 130, minWidth: 80, sortKey: 'twitter', defaultVisible: false },
+  { id: 'engagement', label: 'Engagement', align: 'center', width: 110, minWidth: 80, sortKey: 'engagement', defaultVisible: false },
+  { id: 'score', label: 'Score', align: 'center', width: 90, minWidth: 70, sortKey: 'score', defaultVisible: true },
+  { id: 'members', label: 'Members', align: 'left', width: 180, minWidth: 100, defaultVisible: false },
+  { id: 'links', label: 'Links', align: 'center', width: 100, minWidth: 80, defaultVisible: true },
+];
+
+export const COLUMNS_BY_ID = Object.fromEntries(
+  COLUMNS.map(column => [column.id, column])
+) as Record<ColumnId, ColumnDefinition>;
+
+const MAX_COLUMN_WIDTH = 800;
+
+export interface ColumnLayout {
+  // Every column, in display order
+  order: ColumnId[];
+  hidden: ColumnId[];
+  // Only columns the user has resized
+  widths: Partial<Record<ColumnId, number>>;
+}
+
+export const DEFAULT_COLUMN_LAYOUT: ColumnLayout = {
+  order: COLUMNS.map(column => column.id),
+  hidden: COLUMNS.filter(column => !column.defaultVisible).map(column => column.id),
+  widths: {},
+};
+
+function isColumnId(value: unknown): value is ColumnId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(COLUMNS_BY_ID, value);
+}
+
+export function clampColumnWidth(id: ColumnId, width: number): number {
+  return Math.round(Math.min(MAX_COLUMN_WIDTH, Math.max(COLUMNS_BY_ID[id].minWidth, width)));
+}
+
+/**
+ * Repairs a stored layout: unknown columns are dropped, and columns added
+ * since it was saved are slotted in at their default position and visibility.
+ */
+export function normalizeColumnLayout(raw: unknown): ColumnLayout {
+  if (!raw || typeof raw !== 'object') return DEFAULT_COLUMN_LAYOUT;
+  const data = raw as Record<string, unknown>;
+
+  const order = Array.isArray(data.order)
+    ? data.order.filter(isColumnId).filter((id, index, ids) => ids.indexOf(id) === index)
+    : [];
+  for (const [index, column] of COLUMNS.entries()) {
+    if (!order.includes(column.id)) {
+      order.splice(Math.min(index, order.length), 0, column.id);
+    }
+  }
+
+  const knownIds = new Set(Array.isArray(data.order) ? data.order : []);
+  const hidden = [
+    ...(Array.isArray(data.hidden) ? data.hidden.filter(isColumnId) : []),
+    ...DEFAULT_COLUMN_LAYOUT.hidden.filter(id => !knownIds.has(id)),
+  ].filter(id => !COLUMNS_BY_ID[id].required);
+
+  const widths: Partial<Record<ColumnId, number>> = {};
+  if (data.widths && typeof data.widths === 'object') {
+    for (const [id, width] of Object.entries(data.widths)) {
+      if (isColumnId(id) && typeof width === 'number' && Number.isFinite(width)) {
+        widths[id] = clampColumnWidth(id, width);
+      }
+    }
+  }
+
+  return { order, hidden: Array.from(new Set(hidden)), widths };
+}
+
+export function getColumnWidth(layout: ColumnLayout, id: ColumnId): number {
+  return layout.widths[id] ?? COLUMNS_BY_ID[id].width;
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { FilterOptions } from '@/types/project';
+import {
+  DEFAULT_FILTERS,
+  DEFAULT_PAGINATION,
+  PaginationState,
+  decodeFilters,
+  decodePagination,
+  encodeUrlState,
+  sanitizeFilters,
+} from '@/lib/url-state';
+
+// Through a real query string, as a shared link would travel
+function roundTrip(filters: FilterOptions): FilterOptions {
+  const query = encodeUrlState(filters, DEFAULT_PAGINATION).toString();
+  return decodeFilters(new URLSearchParams(query));
+}
+
+describe('list filters in the URL', () => {
+  it('keeps values that contain commas in one piece', () => {
+    const filters: FilterOptions = {
+      ...DEFAULT_FILTERS,
+      universities: ['University of California, Berkeley', 'MIT'],
+      countries: ['Korea, Republic of', 'United States'],
+      excludedCountries: ['Taiwan, Province of China'],
+      tracks: ['DeFi', 'Payments, Commerce & Fintech'],
+      excludedTracks: ['Gaming, NFTs'],
+      tags: ['shortlist, round 2', 'follow up'],
+    };
+    expect(roundTrip(filters)).toEqual(filters);
+  });
+
+  it('keeps backslashes', () => {
+    const filters = { ...DEFAULT_FILTERS, universities: ['Back\\slash U', 'Trailing\\'] };
+    expect(roundTrip(filters)).toEqual(filters);
+  });
+
+  it('still reads plain comma-separated links', () => {
+    const filters = decodeFilters(new URLSearchParams('countries=Germany, France,,&tracks=DeFi'));
+    expect(filters.countries).toEqual(['Germany', 'France']);
+    expect(filters.tracks).toEqual(['DeFi']);
+  });
+
+  it('keeps commas through sanitizing an imported view', () => {
+    const sanitized = sanitizeFilters({ universities: ['University of California, Berkeley'] });
+    expect(sanitized.universities).toEqual(['University of California, Berkeley']);
+  });
+});
+
+describe('sort in the URL', () => {
+  it('round-trips the primary sort and tie-breakers', () => {
+    const filters: FilterOptions = {
+      ...DEFAULT_FILTERS,
+      sortBy: 'country',
+      sortOrder: 'asc',
+      thenBy: [{ field: 'likes', order: 'desc' }, { field: 'name', order: 'asc' }],
+    };
+    expect(roundTrip(filters)).toEqual(filters);
+  });
+
+  it('drops tie-breakers on the primary sort field', () => {
+    const filters = decodeFilters(new URLSearchParams('sort=likes&then=likes:asc,comments:desc'));
+    expect(filters.thenBy).toEqual([{ field: 'comments', order: 'desc' }]);
+
+    const imported = sanitizeFilters({ sortBy: 'name', thenBy: [{ field: 'name', order: 'asc' }] });
+    expect(imported.thenBy).toEqual([]);
+  });
+
+  it('leaves defaults out of the URL', () => {
+    expect(encodeUrlState(DEFAULT_FILTERS, DEFAULT_PAGINATION).toString()).toBe('');
+  });
+});
+
+describe('exclusions in the URL', () => {
+  it('round-trips excluded tracks and countries with the track mode', () => {
+    const filters: FilterOptions = {
+      ...DEFAULT_FILTERS,
+      tracks: ['DeFi', 'Payments'],
+      trackCombinator: 'and',
+      excludedTracks: ['Gaming'],
+      excludedCountries: ['United States'],
+    };
+    expect(roundTrip(filters)).toEqual(filters);
+  });
+});
+
+describe('pagination in the URL', () => {
+  it('round-trips page, page size and layout', () => {
+    const pagination: PaginationState = { page: 3, pageSize: 50, layout: 'scroll' };
+    const query = encodeUrlState(DEFAULT_FILTERS, pagination).toString();
+    expect(decodePagination(new URLSearchParams(query))).toEqual(pagination);
+  });
+
+  it('falls back to defaults for invalid values', () => {
+    expect(decodePagination(new URLSearchParams('page=0&size=33&layout=grid'))).toEqual(DEFAULT_PAGINATION);
+  });
+});
@@ -0,0 +1,304 @@
+import { FilterOptions, SortField, SortKey } from '@/types/project';
+import { MomentumWindow } from '@/types/snapshot';
+import { DEFAULT_MOMENTUM_WINDOW, MOMENTUM_WINDOWS } from '@/lib/momentum';
+import { PROJECT_LINK_TYPES } from '@/lib/project-links';
+
+/**
+ * Dashboard view <-> URL query string. Every filter field and the table's
+ * pagination has a codec, so any view can be shared as a link. Values equal
+ * to their default are left out of the URL; malformed values fall back to it.
+ */
+
+export const DEFAULT_FILTERS: FilterOptions = {
+  search: '',
+  tracks: [],
+  trackCombinator: 'or',
+  countries: [],
+  excludedTracks: [],
+  excludedCountries: [],
+  teamSizeRange: [1, 50],
+  likesRange: [0, 100],
+  submittedRange: ['', ''],
+  universityOnly: false,
+  universities: [],
+  requiredLinks: [],
+  tags: [],
+  sortBy: 'likes',
+  sortOrder: 'desc',
+  thenBy: [],
+  momentumWindow: DEFAULT_MOMENTUM_WINDOW,
+  watchlistOnly: false,
+};
+
+export const PAGE_SIZE_OPTIONS = [10, 20, 50, 100, 250];
+
+// 'scroll' renders every result in one virtualized list instead of pages
+export type TableLayout = 'pages' | 'scroll';
+
+export interface PaginationState {
+  page: number;
+  pageSize: number;
+  layout: TableLayout;
+}
+
+export const DEFAULT_PAGINATION: PaginationState = { page: 1, pageSize: 20, layout: 'pages' };
+
+const SORT_FIELDS: SortField[] = [
+  'likes', 'comments', 'name', 'country', 'teamSize', 'momentum', 'submittedAt', 'university', 'twitter', 'engagement', 'score',
+];
+
+// Team sizes outside this can't be entered in the sidebar
+const TEAM_SIZE_BOUNDS: [number, number] = [1, 50];
+
+interface ParamCodec<T> {
+  param: string;
+  encode: (value: T) => string;
+  // undefined means the raw value is invalid
+  decode: (raw: string) => T | undefined;
+  isDefault: (value: T) => boolean;
+}
+
+type Codecs<S> = { [K in keyof S]: ParamCodec<S[K]> };
+
+function textParam(param: string, fallback: string): ParamCodec<string> {
+  return {
+    param,
+    encode: value => value,
+    decode: raw => raw,
+    isDefault: value => value === fallback,
+  };
+}
+
+// Commas inside an item are written as `\,` (and backslashes as `\\`), so
+// values like "University of California, Berkeley" stay in one piece
+function joinList(items: string[]): string {
+  return items.map(item => item.replace(/[\\,]/g, '\\$&')).join(',');
+}
+
+function splitList(raw: string): string[] {
+  const items: string[] = [];
+  let current = '';
+  for (let i = 0; i < raw.length; i++) {
+    if (raw[i] === '\\' && i + 1 < raw.length) {
+      current += raw[++i];
+    } else if (raw[i] === ',') {
+      items.push(current);
+      current = '';
+    } else {
+      current += raw[i];
+    }
+  }
+  items.push(current);
+  return items;
+}
+
+function listParam(param: string): ParamCodec<string[]> {
+  return {
+    param,
+    encode: joinList,
+    decode: raw => splitList(raw).map(item => item.trim()).filter(Boolean),
+    isDefault: value => value.length === 0,
+  };
+}
+
+// Unknown entries are dropped rather than rejecting the whole list
+function enumListParam<T extends string>(param: string, allowed: readonly T[]): ParamCodec<T[]> {
+  return {
+    param,
+    encode: value => value.join(','),
+    decode: raw => allowed.filter(value => raw.split(',').includes(value)),
+    isDefault: value => value.length === 0,
+  };
+}
+
+function enumParam<T extends string>(param: string, allowed: readonly T[], fallback: T): ParamCodec<T> {
+  return {
+    param,
+    encode: value => value,
+    decode: raw => allowed.find(value => value === raw),
+    isDefault: value => value === fallback,
+  };
+}
+
+function flagParam(param: string): ParamCodec<boolean> {
+  return {
+    param,
+    encode: () => '1',
+    decode: raw => raw === '1' ? true : raw === '0' ? false : undefined,
+    isDefault: value => !value,
+  };
+}
+
+function parseInteger(raw: string): number | undefined {
+  return /^\d+$/.test(raw) ? parseInt(raw, 10) : undefined;
+}
+
+function integerParam(param: string, fallback: number, isValid: (value: number) => boolean): ParamCodec<number> {
+  return {
+    param,
+    encode: value => String(value),
+    decode: raw => {
+      const value = parseInteger(raw);
+      return value !== undefined && isValid(value) ? value : undefined;
+    },
+    isDefault: value => value === fallback,
+  };
+}
+
+// `min-max`, both inclusive; a range the sidebar couldn't produce is rejected
+function rangeParam(param: string, fallback: [number, number], bounds?: [number, number]): ParamCodec<[number, number]> {
+  return {
+    param,
+    encode: ([min, max]) => `${min}-${max}`,
+    decode: raw => {
+      const [minRaw, maxRaw, ...rest] = raw.split('-');
+      const min = parseInteger(minRaw ?? '');
+      const max = parseInteger(maxRaw ?? '');
+      if (rest.length > 0 || min === undefined || max === undefined || min > max) return undefined;
+      if (bounds && (min < bounds[0] || max > bounds[1])) return undefined;
+      return [min, max];
+    },
+    isDefault: ([min, max]) => min === fallback[0] && max === fallback[1],
+  };
+}
+
+// `from..to` with YYYY-MM-DD days; either side may be empty
+function dateRangeParam(param: string): ParamCodec<[string, string]> {
+  const isDay = (value: string) => value === '' || (/^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value)));
+  return {
+    param,
+    encode: ([from, to]) => `${from}..${to}`,
+    decode: raw => {
+      const [from = '', to = '', ...rest] = raw.split('..');
+      if (rest.length > 0 || !isDay(from) || !isDay(to)) return undefined;
+      if (from && to && from > to) return undefined;
+      return [from, to];
+    },
+    isDefault: ([from, to]) => !from && !to,
+  };
+}
+
+// `field:order` pairs in priority order; invalid or repeated fields are dropped
+function sortKeysParam(param: string): ParamCodec<SortKey[]> {
+  return {
+    param,
+    encode: value => value.map(({ field, order }) => `${field}:${order}`).join(','),
+    decode: raw => {
+      const keys: SortKey[] = [];
+      for (const entry of raw.split(',')) {
+        const [fieldRaw, orderRaw = 'desc'] = entry.trim().split(':');
+        const field = SORT_FIELDS.find(value => value === fieldRaw);
+        const order = orderRaw === 'asc' || orderRaw === 'desc' ? orderRaw : undefined;
+        if (field && order && !keys.some(key => key.field === field)) {
+          keys.push({ field, order });
+        }
+      }
+      return keys;
+    },
+    isDefault: value => value.length === 0,
+  };
+}
+
+const FILTER_CODECS: Codecs<FilterOptions> = {
+  search: textParam('q', DEFAULT_FILTERS.search),
+  tracks: listParam('tracks'),
+  trackCombinator: enumParam('trackMode', ['or', 'and'], DEFAULT_FILTERS.trackCombinator),
+  countries: listParam('countries'),
+  excludedTracks: listParam('excludeTracks'),
+  excludedCountries: listParam('excludeCountries'),
+  teamSizeRange: rangeParam('team', DEFAULT_FILTERS.teamSizeRange, TEAM_SIZE_BOUNDS),
+  likesRange: rangeParam('likes', DEFAULT_FILTERS.likesRange),
+  submittedRange: dateRangeParam('submitted'),
+  universityOnly: flagParam('university'),
+  universities: listParam('universities'),
+  requiredLinks: enumListParam('has', PROJECT_LINK_TYPES),
+  tags: listParam('tags'),
+  sortBy: enumParam('sort', SORT_FIELDS, DEFAULT_FILTERS.sortBy),
+  sortOrder: enumParam('order', ['asc', 'desc'], DEFAULT_FILTERS.sortOrder),
+  thenBy: sortKeysParam('then'),
+  momentumWindow: enumParam('window', Object.keys(MOMENTUM_WINDOWS) as MomentumWindow[], DEFAULT_FILTERS.momentumWindow),
+  watchlistOnly: flagParam('watchlist'),
+};
+
+const PAGINATION_CODECS: Codecs<PaginationState> = {
+  page: integerParam('page', DEFAULT_PAGINATION.page, value => value >= 1),
+  pageSize: integerParam('size', DEFAULT_PAGINATION.pageSize, isPageSize),
+  layout: enumParam('layout', ['pages', 'scroll'], DEFAULT_PAGINATION.layout),
+};
+
+function decodeState<S extends object>(params: URLSearchParams, codecs: Codecs<S>, defaults: S): S {
+  const state = { ...defaults };
+  for (const key of Object.keys(codecs) as (keyof S)[]) {
+    const codec = codecs[key];
+    const raw = params.get(codec.param);
+    if (raw === null) continue;
+
+    const value = codec.decode(raw);
+    if (value !== undefined) {
+      state[key] = value;
+    }
+  }
+  return state;
+}
+
+function encodeState<S extends object>(params: URLSearchParams, codecs: Codecs<S>, state: S): void {
+  for (const key of Object.keys(codecs) as (keyof S)[]) {
+    const codec = codecs[key];
+    if (!codec.isDefault(state[key])) {
+      params.set(codec.param, codec.encode(state[key]));
+    }
+  }
+}
+
+// Re-checks state from an untrusted object (e.g. an imported file) with the same codecs
+function sanitizeState<S extends object>(raw: unknown, codecs: Codecs<S>, defaults: S): S {
+  const state = { ...defaults };
+  if (!raw || typeof raw !== 'object') return state;
+
+  for (const key of Object.keys(codecs) as (keyof S)[]) {
+    const codec = codecs[key];
+    const value = (raw as Partial<S>)[key];
+    if (value === undefined) continue;
+
+    try {
+      if (codec.isDefault(value)) continue;
+      const decoded = codec.decode(String(codec.encode(value)));
+      if (decoded !== undefined) {
+        state[key] = decoded;
+      }
+    } catch {
+      // Wrong shape for this field, keep the default
+    }
+  }
+  return state;
+}
+
+// A tie-breaker on the primary sort field never breaks a tie
+function dropRedundantSortKeys(filters: FilterOptions): FilterOptions {
+  return filters.thenBy.some(key => key.field === filters.sortBy)
+    ? { ...filters, thenBy: filters.thenBy.filter(key => key.field !== filters.sortBy) }
+    : filters;
+}
+
+export function decodeFilters(params: URLSearchParams): FilterOptions {
+  return dropRedundantSortKeys(decodeState(params, FILTER_CODECS, DEFAULT_FILTERS));
+}
+
+export function sanitizeFilters(raw: unknown): FilterOptions {
+  return dropRedundantSortKeys(sanitizeState(raw, FILTER_CODECS, DEFAULT_FILTERS));
+}
+
+export function isPageSize(value: unknown): value is number {
+  return typeof value === 'number' && PAGE_SIZE_OPTIONS.includes(value);
+}
+
+export function decodePagination(params: URLSearchParams): PaginationState {
+  return decodeState(params, PAGINATION_CODECS, DEFAULT_PAGINATION);
+}
+
+export function encodeUrlState(filters: FilterOptions, pagination: PaginationState): URLSearchParams {
+  const params = new URLSearchParams();
+  encodeState(params, FILTER_CODECS, filters);
+  encodeState(params, PAGINATION_CODECS, pagination);
+  return params;
+}
@@ -1,5 +1,6 @@
 import { type ClassValue, clsx } from "clsx"
 import { twMerge } from "tailwind-merge"
+import type { Project } from "@/types/project"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -27,4 +28,34 @@ export function getUniqueValues<T>(array: T[], key: keyof T): string[] {
     .map(String);
   
   return Array.from(new Set(values)).sort();
-} 
\ No newline at end of file
+} 
+/**
+ * Shareable detail page for a project, pinned to the hackathon it belongs to
+ */
+export function getProjectPath(project: Pick<Project, 'slug' | 'hackathonId'>): string {
+  const path = `/projects/${encodeURIComponent(project.slug)}`;
+  return project.hackathonId ? `${path}?hackathon=${project.hackathonId}` : path;
+}
+
+// Project page on Colosseum Arena
+export function getArenaUrl(project: Pick<Project, 'slug'>): string {
+  return `https://arena.colosseum.org/projects/explore/${project.slug}`;
+}
+
+/**
+ * Moves `item` one place earlier (-1) or later (1) among the items `isShown`
+ * accepts, jumping over the ones in between that aren't shown. Returns `items`
+ * itself when there is nowhere to move.
+ */
+export function moveAmongShown<T>(items: T[], item: T, direction: -1 | 1, isShown: (item: T) => boolean): T[] {
+  const from = items.indexOf(item);
+  if (from < 0) return items;
+
+  let to = from + direction;
+  while (to >= 0 && to < items.length && !isShown(items[to])) to += direction;
+  if (to < 0 || to >= items.length) return items;
+
+  const next = items.filter((_, index) => index !== from);
+  next.splice(to, 0, item);
+  return next;
+}
@@ -15,15 +15,30 @@ export function sanitizeString(input: string | null | undefined): string {
 }
 
 /**
- * Sanitize search query specifically
+ * Sanitize search query specifically. The query is only matched against
+ * project text, never rendered, so every printable character is kept (tag
+ * names with commas, tracks with `&`, URLs). Control characters become spaces
+ * rather than being removed, so parse error offsets still point into what the
+ * user typed.
  */
 export function sanitizeSearchQuery(query: string): string {
   if (!query) return '';
-  
+
   return query
-    .replace(/[<>]/g, '') // Remove potential XSS
-    .replace(/[^\w\s\-_.]/g, '') // Only allow word characters, spaces, hyphens, underscores, dots
-    .slice(0, 200) // Limit search query length
+    .replace(/\p{Cc}/gu, ' ')
+    .slice(0, 200); // Limit search query length
+}
+
+/**
+ * Sanitize a name the user gives something in the app (a tag, a view). Names
+ * are only ever rendered as text, so unlike sanitizeString nothing printable
+ * is stripped; control characters become spaces and the length is capped.
+ */
+export function sanitizeName(name: string, maxLength: number): string {
+  return name
+    .replace(/\p{Cc}/gu, ' ')
+    .trim()
+    .slice(0, maxLength)
     .trim();
 }
 
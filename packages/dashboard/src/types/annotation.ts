@@ -0,0 +1,26 @@
+export type TagColor = 'gray' | 'red' | 'orange' | 'amber' | 'green' | 'teal' | 'blue' | 'purple' | 'pink';
+
+export interface ProjectTag {
+  id: string;
+  // Unique, ignoring case
+  name: string;
+  color: TagColor;
+}
+
+// A user's private notes and tags on one project
+export interface ProjectAnnotation {
+  note: string;
+  tagIds: string[];
+  updatedAt: string;
+}
+
+export interface Annotations {
+  tags: ProjectTag[];
+  // Keyed by project id
+  projects: Record<number, ProjectAnnotation>;
+}
+
+// Shape of an exported notes and tags file
+export interface AnnotationsFile extends Annotations {
+  version: number;
+}
@@ -0,0 +1,37 @@
+import { Project } from '@/types/project';
+
+/**
+ * Compact record of what a project looked like when the user last saw it
+ */
+export interface ProjectFingerprint {
+  id: number;
+  name: string;
+  slug: string;
+  likes: number;
+  comments: number;
+  tracks: string[];
+  descriptionHash: string;
+}
+
+export interface SeenBaseline {
+  seenAt: string; // ISO date string
+  projects: ProjectFingerprint[];
+}
+
+export interface ProjectChange {
+  projectId: number;
+  likesDelta: number;
+  commentsDelta: number;
+  tracksChanged: boolean;
+  descriptionChanged: boolean;
+  previousTracks: string[];
+}
+
+export interface ProjectsDiff {
+  since: Date;
+  added: Project[];
+  removed: ProjectFingerprint[];
+  changed: ProjectChange[];
+  addedIds: Set<number>;
+  changesById: Map<number, ProjectChange>;
+}
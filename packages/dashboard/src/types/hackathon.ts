@@ -0,0 +1,8 @@
+export interface Hackathon {
+  id: string;
+  name: string;
+  slug: string;
+  startDate: string; // ISO date string
+  endDate: string; // ISO date string
+  expectedProjects: number;
+}
@@ -1,3 +1,5 @@
+import { MomentumWindow } from '@/types/snapshot';
+
 export interface TeamMember {
   id: number;
   username: string;
@@ -63,12 +65,52 @@ export interface ProjectMetrics {
   projectsWithComments: number;
 }
 
+// Links a project can be required to have
+export type ProjectLink = 'repo' | 'demo' | 'pitch' | 'twitter';
+
+// How multiple selected values of one facet combine: match any of them, or all of them
+export type FacetCombinator = 'or' | 'and';
+
+export type SortField =
+  | 'likes'
+  | 'comments'
+  | 'name'
+  | 'country'
+  | 'teamSize'
+  | 'momentum'
+  | 'submittedAt'
+  | 'university'
+  | 'twitter'
+  | 'engagement'
+  | 'score';
+
+export type SortOrder = 'asc' | 'desc';
+
+export interface SortKey {
+  field: SortField;
+  order: SortOrder;
+}
+
 export interface FilterOptions {
   search: string;
   tracks: string[];
+  trackCombinator: FacetCombinator;
   countries: string[];
+  excludedTracks: string[];
+  excludedCountries: string[];
   teamSizeRange: [number, number];
   likesRange: [number, number];
-  sortBy: 'likes' | 'comments' | 'name' | 'country' | 'teamSize';
-  sortOrder: 'asc' | 'desc';
+  // Inclusive YYYY-MM-DD days in the viewer's time zone; '' leaves that end open
+  submittedRange: [string, string];
+  universityOnly: boolean;
+  universities: string[];
+  requiredLinks: ProjectLink[];
+  // Names of the user's own tags; a project with any of them matches
+  tags: string[];
+  sortBy: SortField;
+  sortOrder: SortOrder;
+  // Secondary sorts, in priority order, for ties in the ones before them
+  thenBy: SortKey[];
+  momentumWindow: MomentumWindow;
+  watchlistOnly: boolean;
 } 
\ No newline at end of file
@@ -0,0 +1,44 @@
+export interface RubricCriterion {
+  id: string;
+  name: string;
+  description: string;
+  // Relative, criteria weights don't need to sum to anything
+  weight: number;
+}
+
+// One reviewer's scores on one project
+export interface ProjectScores {
+  // Criterion id -> 1..5
+  scores: Record<string, number>;
+  updatedAt: string;
+}
+
+export interface ReviewerScores {
+  // Unique, ignoring case
+  reviewer: string;
+  // Keyed by project id
+  projects: Record<number, ProjectScores>;
+}
+
+export interface ScoringState {
+  criteria: RubricCriterion[];
+  // The local reviewer; their scores are the ones edited in the app
+  reviewer: string;
+  projects: Record<number, ProjectScores>;
+  // Other reviewers' scores, imported from their exports
+  imported: ReviewerScores[];
+}
+
+// Shape of an exported scores file (one reviewer, with the rubric they used)
+export interface ScoresFile extends ReviewerScores {
+  version: number;
+  criteria: RubricCriterion[];
+}
+
+export interface LeaderboardEntry {
+  projectId: number;
+  // Weighted score per reviewer, null where they haven't scored the project
+  reviewerScores: (number | null)[];
+  mean: number;
+  reviewerCount: number;
+}
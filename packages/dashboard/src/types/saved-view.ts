@@ -0,0 +1,16 @@
+import { FilterOptions } from '@/types/project';
+
+export interface SavedView {
+  id: string;
+  name: string;
+  // Includes the table sort (sortBy / sortOrder)
+  filters: FilterOptions;
+  pageSize: number;
+  createdAt: string;
+}
+
+// Shape of an exported views file
+export interface SavedViewsFile {
+  version: number;
+  views: SavedView[];
+}
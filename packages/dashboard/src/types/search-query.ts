@@ -0,0 +1,63 @@
+/**
+ * Parsed form of the search box, e.g.
+ * `track:DeFi country:"United States" likes:>20 team:1..3 -gaming "exact phrase"`
+ */
+
+export type TextField = 'name' | 'description' | 'track' | 'country' | 'note' | 'tag';
+export type NumericField = 'likes' | 'comments' | 'team';
+
+export type NumericComparison =
+  | { op: '>' | '>=' | '<' | '<=' | '='; value: number }
+  | { op: 'range'; min: number; max: number };
+
+interface BaseNode {
+  negated: boolean;
+  // Offset of the node in the raw query, for error reporting and highlighting
+  start: number;
+  end: number;
+}
+
+// Bare word, matched against name, description and the private note
+export interface TermNode extends BaseNode {
+  type: 'term';
+  value: string;
+}
+
+// "quoted words", matched as one contiguous string
+export interface PhraseNode extends BaseNode {
+  type: 'phrase';
+  value: string;
+}
+
+export interface TextFieldNode extends BaseNode {
+  type: 'text-field';
+  field: TextField;
+  value: string;
+}
+
+export interface NumericFieldNode extends BaseNode {
+  type: 'numeric-field';
+  field: NumericField;
+  comparison: NumericComparison;
+}
+
+export type QueryNode = TermNode | PhraseNode | TextFieldNode | NumericFieldNode;
+
+export interface QueryError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+export interface SearchQuery {
+  nodes: QueryNode[];
+  errors: QueryError[];
+}
+
+// What to mark in rendered results for the current query
+export interface SearchHighlight {
+  // Whole words, lower case
+  terms: Set<string>;
+  // Substrings, lower case
+  phrases: string[];
+}
@@ -0,0 +1,20 @@
+import { FilterOptions, Project } from '@/types/project';
+import { SearchContext, SearchResult } from '@/lib/search-engine';
+
+/**
+ * Messages between useSearch and the search worker.
+ * Messages are handled in order, so a search always runs against the
+ * projects and context posted before it.
+ */
+
+export type SearchWorkerRequest =
+  // Rebuild the index for a new project list
+  | { type: 'index'; projects: Project[] }
+  | { type: 'context'; context: SearchContext }
+  | { type: 'search'; requestId: number; filters: FilterOptions }
+  // Drop a queued search that hasn't started yet
+  | { type: 'cancel'; requestId: number };
+
+export type SearchWorkerResponse =
+  | { type: 'results'; requestId: number; result: SearchResult }
+  | { type: 'error'; requestId: number; message: string };
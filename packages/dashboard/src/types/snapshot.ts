@@ -0,0 +1,29 @@
+export interface MetricSnapshot {
+  projectId: number;
+  hackathonId: string;
+  likes: number;
+  comments: number;
+  recordedAt: string; // ISO date string
+}
+
+export interface ProjectHistoryResponse {
+  projectId: number;
+  snapshots: MetricSnapshot[];
+}
+
+export type MomentumWindow = '1h' | '24h' | '7d' | '30d';
+
+export interface ProjectMomentum {
+  projectId: number;
+  likesGained: number;
+  commentsGained: number;
+  likesSeries: number[]; // likes per time bucket, oldest first
+  commentsSeries: number[];
+}
+
+export interface MomentumResponse {
+  hackathonId: string;
+  window: MomentumWindow;
+  since: string; // ISO date string
+  projects: ProjectMomentum[];
+}
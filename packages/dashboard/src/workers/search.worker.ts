@@ -0,0 +1,58 @@
+import { SearchEngine } from '@/lib/search-engine';
+import { SearchWorkerRequest, SearchWorkerResponse } from '@/types/search-worker';
+import { FilterOptions } from '@/types/project';
+
+// The DOM lib types `self` as a Window; in a dedicated worker it is the other end of the Worker
+const scope = self as unknown as {
+  postMessage(message: SearchWorkerResponse): void;
+  addEventListener(type: 'message', listener: (event: MessageEvent<SearchWorkerRequest>) => void): void;
+};
+
+const engine = new SearchEngine();
+
+// Searches wait a tick before running so a newer search or a cancel queued
+// behind them can replace them; only the latest pending one ever runs
+let pending: { requestId: number; filters: FilterOptions } | null = null;
+let scheduled = false;
+
+function runPending() {
+  scheduled = false;
+  const request = pending;
+  pending = null;
+  if (!request) return;
+
+  try {
+    scope.postMessage({ type: 'results', requestId: request.requestId, result: engine.search(request.filters) });
+  } catch (error) {
+    scope.postMessage({
+      type: 'error',
+      requestId: request.requestId,
+      message: error instanceof Error ? error.message : 'Search failed',
+    });
+  }
+}
+
+scope.addEventListener('message', (event) => {
+  const message = event.data;
+
+  switch (message.type) {
+    case 'index':
+      engine.setProjects(message.projects);
+      break;
+    case 'context':
+      engine.setContext(message.context);
+      break;
+    case 'search':
+      pending = { requestId: message.requestId, filters: message.filters };
+      if (!scheduled) {
+        scheduled = true;
+        setTimeout(runPending, 0);
+      }
+      break;
+    case 'cancel':
+      if (pending?.requestId === message.requestId) {
+        pending = null;
+      }
+      break;
+  }
+});